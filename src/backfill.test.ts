@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import type { Context } from "@actions/github/lib/context";
+import { backfillChangelog } from "./backfill.js";
+import { loadConfig } from "./config.js";
+
+const notFound = () => Object.assign(new Error("Not Found"), { status: 404 });
+
+/** Just enough of Octokit for a backfill of one tag. */
+function fakeOctokit(pulls: Record<number, object>) {
+  const written: string[] = [];
+  const octo = {
+    paginate: async (method: any, params: any) => (await method(params)).data,
+    rest: {
+      repos: {
+        get: async () => ({ data: { default_branch: "main" } }),
+        listTags: async () => ({
+          data: [{ name: "v1.0.0", commit: { sha: "t1" } }],
+        }),
+        listCommits: async () => ({
+          data: [
+            { sha: "aaaaaaa1", commit: { message: "feat: add search (#5)" } },
+            {
+              sha: "bbbbbbb2",
+              commit: { message: "fix: clamp input (#7)\n\nCloses #7" },
+            },
+          ],
+        }),
+        listPullRequestsAssociatedWithCommit: async () => ({ data: [] }),
+        getContent: async () => {
+          throw notFound();
+        },
+        createOrUpdateFileContents: async ({ content }: any) => {
+          written.push(Buffer.from(content, "base64").toString("utf8"));
+          return { data: { commit: { sha: "c1" } } };
+        },
+      },
+      pulls: {
+        get: async ({ pull_number }: any) => {
+          if (!pulls[pull_number]) throw notFound();
+          return { data: pulls[pull_number] };
+        },
+      },
+      git: {
+        getCommit: async () => ({
+          data: { committer: { date: "2024-05-01T12:00:00Z" } },
+        }),
+      },
+    },
+  };
+  return { octo: octo as any, written };
+}
+
+const ctx = {
+  repo: { owner: "o", repo: "r" },
+  payload: {},
+  eventName: "workflow_dispatch",
+  ref: "refs/heads/main",
+  serverUrl: "https://github.com",
+} as unknown as Context;
+
+describe("backfillChangelog", () => {
+  it("falls back to the commit when a (#N) ref is an issue", async () => {
+    const { octo, written } = fakeOctokit({
+      5: {
+        number: 5,
+        title: "feat: add search",
+        labels: [],
+        merged_at: "2024-04-30T10:00:00Z",
+        merge_commit_sha: "aaaaaaa1",
+      },
+    });
+    const cfg = await loadConfig("/nonexistent.yml");
+
+    expect(await backfillChangelog(octo, ctx, cfg)).toEqual(["1.0.0"]);
+    expect(written).toHaveLength(1);
+    expect(written[0]).toContain(
+      "## [1.0.0] – 2024-05-01\n\n### Features\n- add search (#5)\n\n### Fixes\n- clamp input (bbbbbbb)\n"
+    );
+  });
+
+  it("skips PRs that were closed without merging", async () => {
+    const { octo, written } = fakeOctokit({
+      5: { number: 5, title: "feat: add search", labels: [], merged_at: null },
+    });
+    const cfg = await loadConfig("/nonexistent.yml");
+
+    await backfillChangelog(octo, ctx, cfg);
+    expect(written[0]).not.toContain("#5");
+  });
+});
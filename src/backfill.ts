@@ -0,0 +1,302 @@
+import { Context } from "@actions/github/lib/context";
+import * as github from "@actions/github";
+import semver from "semver";
+type Octokit = ReturnType<typeof github.getOctokit>;
+import type { Config } from "./config.js";
+import {
+  compareLinks,
+  editChangelog,
+  formatDate,
+  formatEntryBullets,
+  type ChangelogEntry,
+} from "./changelog.js";
+import {
+  buildCommitEntry,
+  buildPrEntry,
+  needsPrFiles,
+  prInfo,
+  type PrEntry,
+} from "./entry.js";
+import {
+  githubReader,
+  listCommitFiles,
+  listPrFiles,
+  listVersionTags,
+  mergedPrForCommit,
+  tagPrefixOf,
+  type VersionTag,
+} from "./github.js";
+import { discoverPackages, type PackageMeta } from "./monorepo.js";
+import {
+  buildSection,
+  findVersion,
+  updateCompareLinks,
+  upsertVersionSection,
+} from "./model.js";
+import { renderTemplate } from "./template.js";
+
+/** Inclusive tag/version range to regenerate; open ends mean "all". */
+export type BackfillRange = { from?: string; to?: string };
+
+type VersionData = {
+  version: string;
+  date: string;
+  categories: Array<{ name: string; bullets: string[]; heading?: string }>;
+};
+
+// "Merge pull request #12 from …" (merge commits) or "Subject (#12)" (squash merges)
+const PR_REF_RES = [/^Merge pull request #(\d+)/, /\(#(\d+)\)\s*$/];
+
+/** Commits reachable from `head` but not from `base` (all history when base is undefined). */
+async function commitsBetween(
+  octo: Octokit,
+  owner: string,
+  repo: string,
+  base: string | undefined,
+  head: string
+): Promise<Array<{ sha: string; message: string }>> {
+  if (!base) {
+    const commits = await octo.paginate(octo.rest.repos.listCommits, {
+      owner,
+      repo,
+      sha: head,
+      per_page: 100,
+    });
+    return commits.map((c) => ({ sha: c.sha, message: c.commit.message }));
+  }
+
+  const out: Array<{ sha: string; message: string }> = [];
+  let page = 1;
+  for (;;) {
+    const { data } = await octo.rest.repos.compareCommitsWithBasehead({
+      owner,
+      repo,
+      basehead: `${base}...${head}`,
+      per_page: 100,
+      page,
+    });
+    for (const c of data.commits)
+      out.push({ sha: c.sha, message: c.commit.message });
+    if (data.commits.length < 100) break;
+    page++;
+  }
+  return out;
+}
+
+/**
+ * PR numbers merged by a list of commits (message refs first, API lookup
+ * otherwise), each with the first commit that referenced it.
+ */
+async function prRefsForCommits(
+  octo: Octokit,
+  owner: string,
+  repo: string,
+  commits: Array<{ sha: string; message: string }>
+): Promise<Map<number, { sha: string; message: string }>> {
+  const refs = new Map<number, { sha: string; message: string }>();
+  for (const c of commits) {
+    const subject = c.message.split("\n")[0];
+    const ref = PR_REF_RES.map((re) => re.exec(subject)?.[1]).find(Boolean);
+    const number = ref
+      ? Number(ref)
+      : await mergedPrForCommit(octo, owner, repo, c.sha);
+    if (number && !refs.has(number)) refs.set(number, c);
+  }
+  return refs;
+}
+
+function inRange(version: string, range: BackfillRange): boolean {
+  const from = range.from ? semver.clean(range.from) : null;
+  const to = range.to ? semver.clean(range.to) : null;
+  if (from && semver.lt(version, from)) return false;
+  if (to && semver.gt(version, to)) return false;
+  return true;
+}
+
+/**
+ * Entry of a referenced PR; a "(#12)" that turns out to be an issue falls
+ * back to the commit that mentioned it. Null for unmerged or skipped PRs.
+ */
+async function buildVersionEntry(
+  octo: Octokit,
+  owner: string,
+  repo: string,
+  cfg: Config,
+  packages: PackageMeta[],
+  number: number,
+  commit: { sha: string; message: string }
+): Promise<ChangelogEntry | null> {
+  let pr = null;
+  try {
+    ({ data: pr } = await octo.rest.pulls.get({
+      owner,
+      repo,
+      pull_number: number,
+    }));
+  } catch (err: any) {
+    if (err?.status !== 404) throw err; // "#123" may be an issue
+  }
+  if (pr && !pr.merged_at) return null;
+
+  let built: PrEntry;
+  if (pr) {
+    const files = needsPrFiles(cfg)
+      ? (await listPrFiles(octo, owner, repo, number)).map((f) => f.filename)
+      : null;
+    built = buildPrEntry(prInfo(pr), cfg, files, packages);
+  } else {
+    // Drop the issue ref so the bullet is keyed by the commit
+    const [subject, ...rest] = commit.message.split("\n");
+    const message = [subject.replace(PR_REF_RES[1], "").trim(), ...rest];
+    const files = needsPrFiles(cfg)
+      ? await listCommitFiles(octo, owner, repo, commit.sha)
+      : null;
+    built = buildCommitEntry(
+      { sha: commit.sha, message: message.join("\n") },
+      cfg,
+      files,
+      packages
+    );
+  }
+  return built.skipped ? null : built.entry;
+}
+
+/** Build the categorized bullets for every merged PR between two tags. */
+async function collectVersion(
+  octo: Octokit,
+  owner: string,
+  repo: string,
+  cfg: Config,
+  packages: PackageMeta[],
+  prev: VersionTag | undefined,
+  tag: VersionTag
+): Promise<VersionData> {
+  const commits = await commitsBetween(octo, owner, repo, prev?.sha, tag.sha);
+  const byCategory = new Map<string, string[]>();
+  const breaking: string[] = [];
+  const tpl = cfg.templates.changelog;
+
+  const refs = await prRefsForCommits(octo, owner, repo, commits);
+  for (const [number, commit] of refs) {
+    const entry = await buildVersionEntry(
+      octo,
+      owner,
+      repo,
+      cfg,
+      packages,
+      number,
+      commit
+    );
+    if (!entry) continue;
+
+    const list = byCategory.get(entry.category) ?? [];
+    if (tpl.breakingHeader && entry.breaking) {
+      list.push(
+        ...formatEntryBullets({ ...entry, breakingNote: undefined }, tpl.bullet)
+      );
+      breaking.push(
+        ...formatEntryBullets({ ...entry, breaking: false }, tpl.bullet)
+      );
+    } else {
+      list.push(...formatEntryBullets(entry, tpl.bullet));
+    }
+    byCategory.set(entry.category, list);
+  }
+
+  // Configured category order first, then anything else (e.g. renamed categories)
+  const order = [
+    ...Object.keys(cfg.categories ?? {}),
+    ...[...byCategory.keys()].filter((c) => !(c in (cfg.categories ?? {}))),
+  ];
+
+  const { data: commit } = await octo.rest.git.getCommit({
+    owner,
+    repo,
+    commit_sha: tag.sha,
+  });
+
+  return {
+    version: tag.version,
+    date: formatDate(new Date(commit.committer.date), cfg.dates),
+    categories: [
+      { name: "", bullets: breaking, heading: tpl.breakingHeader },
+      ...order.map((name) => ({
+        name,
+        bullets: byCategory.get(name) ?? [],
+        heading: renderTemplate(tpl.categoryHeader, { category: name }),
+      })),
+    ],
+  };
+}
+
+/**
+ * Regenerate version sections from tags and the PRs merged between them.
+ * Sections outside `range` are left untouched, a regenerated section keeps
+ * the date it already had, and the compare links are refreshed. Returns the
+ * versions written.
+ */
+export async function backfillChangelog(
+  octo: Octokit,
+  ctx: Context,
+  cfg: Config,
+  range: BackfillRange = {}
+): Promise<string[]> {
+  const { owner, repo } = ctx.repo;
+  const tags = await listVersionTags(octo, owner, repo, cfg.tagPrefix);
+
+  let packages: PackageMeta[] = [];
+  if (cfg.monorepo?.enabled) {
+    const { data } = await octo.rest.repos.get({ owner, repo });
+    packages = await discoverPackages(
+      githubReader(octo, owner, repo, data.default_branch),
+      cfg.monorepo.packages
+    );
+  }
+
+  const versions: VersionData[] = [];
+  for (let i = 0; i < tags.length; i++) {
+    if (!inRange(tags[i].version, range)) continue;
+    versions.push(
+      await collectVersion(
+        octo,
+        owner,
+        repo,
+        cfg,
+        packages,
+        tags[i - 1],
+        tags[i]
+      )
+    );
+  }
+  if (!versions.length) return [];
+  const links = compareLinks(
+    ctx,
+    cfg,
+    cfg.tagPrefix ?? tagPrefixOf(tags.at(-1))
+  );
+
+  await editChangelog(
+    octo,
+    ctx,
+    cfg,
+    `chore(relnote): backfill ${versions.length} version(s)`,
+    (doc) => {
+      for (const v of versions) {
+        const date = findVersion(doc, v.version)?.date ?? v.date;
+        const section = buildSection(
+          v.version,
+          date,
+          v.categories,
+          renderTemplate(cfg.templates.changelog.versionHeader, {
+            version: v.version,
+            date,
+          })
+        );
+        upsertVersionSection(doc, section);
+      }
+      if (links) updateCompareLinks(doc, links);
+    }
+  );
+
+  return versions.map((v) => v.version);
+}
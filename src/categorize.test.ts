@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { parseConventionalCommit } from "./categorize.js";
+
+describe("parseConventionalCommit", () => {
+  it("splits header, body and footers", () => {
+    const commit = parseConventionalCommit(
+      "feat(api)!: drop v1\n\nThe v1 endpoints are gone.\n\nSecond paragraph.\n\nRefs #12\nReviewed-by: Alice\n"
+    );
+    expect(commit).toEqual({
+      header: { type: "feat", scope: "api", bang: true, subject: "drop v1" },
+      title: "feat(api)!: drop v1",
+      body: "The v1 endpoints are gone.\n\nSecond paragraph.",
+      footers: [
+        { token: "Refs", value: "12" },
+        { token: "Reviewed-by", value: "Alice" },
+      ],
+      breaking: undefined,
+    });
+  });
+
+  it("reads multi-line BREAKING CHANGE footers", () => {
+    for (const token of ["BREAKING CHANGE", "BREAKING-CHANGE"]) {
+      const commit = parseConventionalCommit(
+        `fix: clamp input\n\n${token}: inputs above 100\nare now rejected.\nCloses #7`
+      );
+      expect(commit.breaking).toBe("inputs above 100\nare now rejected.");
+      expect(commit.footers.map((f) => f.token)).toEqual([token, "Closes"]);
+      expect(commit.body).toBe("");
+    }
+  });
+
+  it("keeps a last paragraph that doesn't start with a footer in the body", () => {
+    const commit = parseConventionalCommit(
+      "update readme\n\nSee the docs.\nRefs: #3"
+    );
+    expect(commit.header).toBeNull();
+    expect(commit.body).toBe("See the docs.\nRefs: #3");
+    expect(commit.footers).toEqual([]);
+  });
+
+  it("handles a bare title with CRLF line endings", () => {
+    expect(parseConventionalCommit("fix: typo\r\n")).toMatchObject({
+      title: "fix: typo",
+      body: "",
+      footers: [],
+    });
+  });
+});
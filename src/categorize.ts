@@ -4,11 +4,15 @@ export type CategorizeResult = {
   category: string;
   breaking: boolean;
   scope?: string;
+  source?: "label" | "type" | "fallback"; // what decided the category
 };
 
 // Conventional Commits: type(scope)!: subject
 const CC_RE = /^(\w+)(?:\(([^)]+)\))?(!)?:\s*(.+)$/i;
 
+// Commit footers: "Token: value" or "Token #value"; BREAKING CHANGE may contain a space
+const FOOTER_RE = /^(BREAKING CHANGE|[\w-]+)(?::\s|\s#)(.*)$/;
+
 // Phrases in PR titles that indicate breaking changes
 const BREAKING_TOKENS = [
   "breaking change",
@@ -56,6 +60,61 @@ const COMMON_LABEL_ALIASES: Record<string, string> = {
 
 const norm = (s: string) => s.trim().toLowerCase();
 
+/** Split a Conventional Commit title into its parts; null if it isn't one. */
+export function parseConventionalTitle(title: string): {
+  type: string;
+  scope?: string;
+  bang: boolean;
+  subject: string;
+} | null {
+  const m = CC_RE.exec(title.trim());
+  if (!m) return null;
+  return { type: norm(m[1]), scope: m[2], bang: !!m[3], subject: m[4] };
+}
+
+/** A Conventional Commit message split into header, body and footers. */
+export type ConventionalCommit = {
+  header: ReturnType<typeof parseConventionalTitle>; // null when the first line isn't Conventional
+  title: string; // first line as written
+  body: string;
+  footers: Array<{ token: string; value: string }>;
+  breaking?: string; // text of the "BREAKING CHANGE:" footer
+};
+
+/**
+ * Parse a full commit message. The last paragraph holds the footers when it
+ * starts with one ("Token: value" / "Token #value"); lines that don't start
+ * a footer continue the previous one.
+ */
+export function parseConventionalCommit(message: string): ConventionalCommit {
+  const [title = "", ...rest] = message.trim().split(/\r?\n/);
+  const paragraphs = rest
+    .join("\n")
+    .trim()
+    .split(/\n\s*\n/);
+
+  const footers: ConventionalCommit["footers"] = [];
+  const last = paragraphs[paragraphs.length - 1].split("\n");
+  if (FOOTER_RE.test(last[0])) {
+    paragraphs.pop();
+    for (const line of last) {
+      const m = FOOTER_RE.exec(line);
+      if (m) footers.push({ token: m[1], value: m[2] });
+      else footers[footers.length - 1].value += `\n${line}`;
+    }
+  }
+
+  return {
+    header: parseConventionalTitle(title),
+    title: title.trim(),
+    body: paragraphs.join("\n\n"),
+    footers,
+    breaking: footers
+      .find((f) => /^BREAKING[ -]CHANGE$/.test(f.token))
+      ?.value.trim(),
+  };
+}
+
 function normalizeLabel(l: string): string {
   const n = norm(l);
   // Strip common prefixes like "type:" or "kind:"
@@ -63,6 +122,20 @@ function normalizeLabel(l: string): string {
   return COMMON_LABEL_ALIASES[stripped] ?? COMMON_LABEL_ALIASES[n] ?? stripped;
 }
 
+/** Map an explicit category name or alias (e.g. from the PR body) to a configured category. */
+export function resolveCategory(name: string, cfg: Config): string | undefined {
+  const n = norm(name);
+  for (const cat of Object.keys(cfg.categories ?? {})) {
+    if (norm(cat) === n) return cat;
+    if ((cfg.categories[cat] ?? []).some((a) => norm(a) === n)) return cat;
+  }
+  return undefined;
+}
+
+/**
+ * Categorize a PR title or a full commit message; a "BREAKING CHANGE:"
+ * footer marks it breaking.
+ */
 export function categorize(
   title: string,
   labels: string[] = [],
@@ -79,20 +152,16 @@ export function categorize(
     }
   }
 
-  // Parse Conventional Commit title
-  let type: string | undefined;
-  let scope: string | undefined;
-  let bang = false;
-  const m = CC_RE.exec(title);
-  if (m) {
-    type = norm(m[1]);
-    scope = m[2];
-    bang = !!m[3];
-  }
+  // Parse Conventional Commit header (and footers of a commit message)
+  const commit = parseConventionalCommit(title);
+  const cc = commit.header;
+  const type = cc?.type;
+  const scope = cc?.scope;
+  const bang = cc?.bang ?? false;
 
   // Determine "breaking"
-  let breaking = bang;
-  const lowerTitle = norm(title);
+  let breaking = bang || commit.breaking !== undefined;
+  const lowerTitle = norm(commit.title);
 
   if (!breaking && cfg.breakingLabels?.length) {
     const breaks = cfg.breakingLabels.map(norm);
@@ -117,18 +186,23 @@ export function categorize(
   for (const cat of categoryOrder) {
     const aliases = (cfg.categories[cat] ?? []).map(norm);
     if (normedLabels.includes(norm(cat))) {
-      return { category: cat, breaking, scope };
+      return { category: cat, breaking, scope, source: "label" };
     }
     for (const lab of normedLabels) {
       if (aliases.includes(lab)) {
-        return { category: cat, breaking, scope };
+        return { category: cat, breaking, scope, source: "label" };
       }
     }
   }
 
   // 2) Match via Conventional Commit type
   if (type && aliasToCategory.has(type)) {
-    return { category: aliasToCategory.get(type)!, breaking, scope };
+    return {
+      category: aliasToCategory.get(type)!,
+      breaking,
+      scope,
+      source: "type",
+    };
   }
 
   // 3) English-only fallbacks (pick the first one that exists in cfg)
@@ -145,5 +219,5 @@ export function categorize(
   const fallback = FALLBACKS.find((f) => categoryOrder.includes(f));
   const category = fallback ?? categoryOrder[0] ?? "Changes";
 
-  return { category, breaking, scope };
+  return { category, breaking, scope, source: "fallback" };
 }
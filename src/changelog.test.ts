@@ -0,0 +1,479 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Context } from "@actions/github/lib/context";
+import { DEFAULT_TEMPLATES, loadConfig, type Config } from "./config.js";
+import {
+  addEntryToText,
+  editChangelog,
+  entryBump,
+  formatDate,
+  hasUnreleasedEntry,
+  parseUnreleasedEntries,
+  releaseTagProblems,
+  releaseText,
+  releaseUnreleased,
+  removeEntryFromText,
+  summarizeText,
+  type ChangelogEntry,
+} from "./changelog.js";
+import { findUnreleased, upsertEntry, type Changelog } from "./model.js";
+
+const feature: ChangelogEntry = {
+  prNumber: 11,
+  title: "feat(search): add search",
+  category: "Features",
+  scope: "search",
+};
+const breaking: ChangelogEntry = {
+  prNumber: 12,
+  title: "feat!: drop v1",
+  category: "Features",
+  breaking: true,
+  breakingNote: "Use the v2 endpoints.",
+};
+const commit: ChangelogEntry = {
+  title: "clamp input",
+  category: "Fixes",
+  sha: "1a2b3c4d5e6f",
+};
+
+const withEntries = (...entries: ChangelogEntry[]) =>
+  entries.reduce<string | null>((text, e) => addEntryToText(text, e), null)!;
+
+describe("addEntryToText", () => {
+  it("creates the changelog and files entries under their category", () => {
+    expect(withEntries(feature, commit)).toBe(
+      `# Changelog
+All notable changes to this project will be documented in this file.
+
+## [Unreleased]
+
+### Features
+- [search] add search (#11)
+
+### Fixes
+- clamp input (1a2b3c4)
+
+`
+    );
+  });
+
+  it("is idempotent per PR and per commit", () => {
+    const text = withEntries(feature, commit);
+    expect(addEntryToText(text, feature)).toBe(text);
+    expect(addEntryToText(text, commit)).toBe(text);
+  });
+
+  it("repeats breaking entries with their note in the breaking section", () => {
+    const text = withEntries(feature, breaking);
+    expect(text).toContain(
+      "## [Unreleased]\n\n### ⚠ Breaking Changes\n- drop v1 (#12)\n  Use the v2 endpoints.\n\n### Features\n- **BREAKING:** drop v1 (#12)\n- [search] add search (#11)\n"
+    );
+  });
+
+  it("leaves released entries alone", () => {
+    const released = releaseText(withEntries(feature), "1.0.0", "2024-06-01")!;
+    expect(addEntryToText(released.text, feature)).toBe(released.text);
+  });
+
+  it("removes an entry from every Unreleased category", () => {
+    const text = removeEntryFromText(withEntries(feature, breaking), 12);
+    expect(text).not.toContain("#12");
+    expect(text).not.toContain("Breaking Changes");
+  });
+});
+
+describe("entries for direct commits", () => {
+  const hashCommit: ChangelogEntry = {
+    title: "handle #6 overflow",
+    category: "Fixes",
+    sha: "abcdef123456",
+  };
+  const pr6: ChangelogEntry = {
+    prNumber: 6,
+    title: "add 6",
+    category: "Fixes",
+  };
+
+  it("aren't taken for the PR mentioned in their subject", () => {
+    const text = withEntries(hashCommit, pr6);
+    expect(text).toContain("- add 6 (#6)\n- handle #6 overflow (abcdef1)\n");
+    expect(removeEntryFromText(text, 6)).toContain(
+      "- handle #6 overflow (abcdef1)\n"
+    );
+    expect(removeEntryFromText(text, 6)).not.toContain("(#6)");
+    expect(hasUnreleasedEntry(withEntries(hashCommit), 6)).toBe(false);
+  });
+
+  it("don't hide the PR once released", () => {
+    const released = releaseText(
+      withEntries(hashCommit),
+      "1.0.0",
+      "2024-06-01"
+    )!;
+    expect(released.section.categories[0].items[0]).toMatchObject({
+      pr: undefined,
+    });
+    expect(addEntryToText(released.text, pr6)).toContain(
+      "## [Unreleased]\n\n### Fixes\n- add 6 (#6)\n"
+    );
+  });
+
+  it("follow a custom bullet template", () => {
+    const tpl = { ...DEFAULT_TEMPLATES, bullet: "{{subject}} #{{pr}}" };
+    const text = addEntryToText(
+      addEntryToText(null, pr6, tpl),
+      hashCommit,
+      tpl
+    );
+    expect(text).toContain("- handle #6 overflow abcdef1\n- add 6 #6\n");
+    expect(hasUnreleasedEntry(text, 6, tpl)).toBe(true);
+    expect(removeEntryFromText(text, 6, tpl)).not.toContain("add 6");
+    expect(removeEntryFromText(text, 6, tpl)).toContain("handle #6 overflow");
+  });
+});
+
+describe("parseUnreleasedEntries / summarizeText", () => {
+  it("reads entries back once, breaking section excluded", () => {
+    expect(parseUnreleasedEntries(withEntries(feature, breaking))).toEqual([
+      { category: "Features", breaking: true, scope: undefined },
+      { category: "Features", breaking: false, scope: "search" },
+    ]);
+  });
+
+  it("falls back to the marker when the bullet template has no {{breaking}}", () => {
+    const tpl = {
+      ...DEFAULT_TEMPLATES,
+      bullet: "{{subject}} (#{{pr}})",
+      breakingHeader: "",
+    };
+    const text = `## [Unreleased]\n\n### Features\n- **BREAKING:** drop v1 (#12)\n- add search (#11)\n`;
+    expect(parseUnreleasedEntries(text, tpl).map((e) => e.breaking)).toEqual([
+      true,
+      false,
+    ]);
+  });
+
+  it("marks entries listed in the breaking section as breaking", () => {
+    const tpl = { ...DEFAULT_TEMPLATES, bullet: "{{subject}} (#{{pr}})" };
+    const released = releaseText(
+      addEntryToText(null, feature, tpl),
+      "1.2.0",
+      "2024-06-01",
+      { templates: tpl }
+    )!;
+    const text = addEntryToText(
+      addEntryToText(released.text, breaking, tpl),
+      { ...commit, breaking: true },
+      tpl
+    );
+    expect(text).not.toContain("**BREAKING:**");
+    expect(parseUnreleasedEntries(text, tpl)).toEqual([
+      { category: "Features", breaking: true, scope: undefined },
+      { category: "Fixes", breaking: true, scope: undefined },
+    ]);
+    expect(
+      summarizeText("root", "CHANGELOG.md", text, undefined, tpl)
+    ).toMatchObject({ bump: "major", nextVersion: "2.0.0" });
+  });
+
+  it("suggests the bump and next version", () => {
+    const text = releaseText(withEntries(commit), "1.2.0", "2024-06-01")!.text;
+    expect(
+      summarizeText("root", "CHANGELOG.md", addEntryToText(text, breaking))
+    ).toMatchObject({ entries: 1, bump: "major", nextVersion: "2.0.0" });
+    expect(
+      summarizeText("root", "CHANGELOG.md", addEntryToText(text, feature))
+    ).toMatchObject({ bump: "minor", nextVersion: "1.3.0" });
+  });
+});
+
+describe("releaseText", () => {
+  it("moves Unreleased into a dated version section with compare links", () => {
+    const released = releaseText(
+      withEntries(feature, breaking),
+      "2.0.0",
+      "2024-06-01",
+      {
+        templates: DEFAULT_TEMPLATES,
+        links: { repoUrl: "https://github.com/o/r", tagPrefix: "v" },
+      }
+    )!;
+    expect(released.text).toContain(
+      "## [Unreleased]\n\n## [2.0.0] – 2024-06-01\n\n### ⚠ Breaking Changes\n"
+    );
+    expect(released.text).toMatch(
+      /\n\[Unreleased\]: https:\/\/github.com\/o\/r\/compare\/v2\.0\.0\.\.\.HEAD\n\[2\.0\.0\]: https:\/\/github.com\/o\/r\/releases\/tag\/v2\.0\.0\n$/
+    );
+    expect(released.body).toMatch(/^### ⚠ Breaking Changes\n/);
+  });
+
+  it("returns null when there is nothing to release", () => {
+    const released = releaseText(withEntries(feature), "1.0.0", "2024-06-01")!;
+    expect(releaseText(released.text, "1.0.1", "2024-06-02")).toBeNull();
+  });
+
+  it("releases versions that are not SemVer", () => {
+    const text = `${withEntries(
+      feature
+    )}## [1.0.0-rc.1]\n\n### Fixes\n- clamp (#3)\n`;
+    for (const version of ["release-2024", "1.0"]) {
+      const released = releaseText(text, version, "2024-06-01")!;
+      expect(released.text).toContain(`## [${version}] – 2024-06-01\n`);
+      expect(released.text).toContain("## [1.0.0-rc.1]");
+    }
+  });
+
+  it("leaves the text alone for release-only prereleases", () => {
+    const text = withEntries(feature);
+    const released = releaseText(text, "1.0.0-rc.1", "2024-06-01", {
+      prereleases: { mode: "release-only", onStable: "remove" },
+    })!;
+    expect(released.text).toBe(text);
+    expect(released.body).toBe("### Features\n- [search] add search (#11)");
+  });
+});
+
+describe("formatDate", () => {
+  const late = new Date("2024-03-31T23:30:00Z");
+
+  it("formats in the configured time zone", () => {
+    expect(formatDate(late, { timeZone: "UTC" })).toBe("2024-03-31");
+    expect(formatDate(late, { timeZone: "Europe/Berlin" })).toBe("2024-04-01");
+  });
+
+  it("supports month names and unpadded tokens", () => {
+    expect(
+      formatDate(late, { timeZone: "UTC", format: "D MMMM YYYY (MMM M/DD)" })
+    ).toBe("31 March 2024 (Mar 3/31)");
+  });
+});
+
+describe("entryBump", () => {
+  const ctx = {
+    repo: { owner: "o", repo: "r" },
+    payload: { pull_request: { base: { ref: "main" } } },
+  } as unknown as Context;
+  const octo = {
+    rest: {
+      repos: {
+        get: async () => ({ data: { default_branch: "main" } }),
+        getContent: async ({ path }: { path: string }) => {
+          if (path !== "CHANGELOG.md")
+            throw Object.assign(new Error("Not Found"), { status: 404 });
+          const text = "# Changelog\n\n## [Unreleased]\n\n## [0.3.0]\n";
+          const content = Buffer.from(text).toString("base64");
+          return { data: { type: "file", sha: "s1", content } };
+        },
+      },
+    },
+  } as any;
+  const res = { category: "Features", breaking: true };
+
+  it("applies the 0.x rules to the target branch's version", async () => {
+    const cfg = await loadConfig("/nonexistent.yml");
+    expect(await entryBump(octo, ctx, cfg, res)).toBe("major");
+    cfg.bump.initialDevelopment = true;
+    expect(await entryBump(octo, ctx, cfg, res)).toBe("minor");
+    expect(
+      await entryBump(octo, ctx, cfg, { category: "Features", breaking: false })
+    ).toBe("patch");
+  });
+});
+
+describe("releaseTagProblems", () => {
+  const text = releaseText(withEntries(commit), "1.2.0", "2024-06-01")!.text;
+
+  it("reports tags that don't fit Unreleased", async () => {
+    const cfg = await loadConfig("/nonexistent.yml");
+    expect(releaseTagProblems(text, "v1.0", "v", cfg)).toEqual([
+      "Release tag v1.0 is not valid SemVer.",
+    ]);
+    expect(releaseTagProblems(text, "v1.1.0", "v", cfg)).toEqual([
+      "Release tag v1.1.0 is not greater than 1.2.0.",
+    ]);
+    expect(releaseTagProblems(text, "v1.2.1", "v", cfg)).toEqual([]);
+    expect(releaseTagProblems(text, "v1.2.0", "v", cfg)).toEqual([]);
+  });
+
+  it("reports nothing with tagValidation: off", async () => {
+    const cfg = await loadConfig("/nonexistent.yml");
+    cfg.tagValidation = "off";
+    expect(releaseTagProblems(text, "v1.0", "v", cfg)).toEqual([]);
+  });
+});
+
+/**
+ * A repo holding one CHANGELOG.md on main, recording writes, release bodies
+ * and PR lookups. The next `racing` writes lose to a concurrent one; `fail`
+ * makes writes fail with that status.
+ */
+function fakeRepo(text: string) {
+  const repo = {
+    text,
+    sha: 1,
+    writes: 0,
+    racing: 0,
+    fail: 0,
+    bodies: [] as string[],
+    pulls: [] as number[],
+  };
+  const octo = {
+    rest: {
+      repos: {
+        get: async () => ({ data: { default_branch: "main" } }),
+        getContent: async () => {
+          const content = Buffer.from(repo.text).toString("base64");
+          return { data: { type: "file", sha: `s${repo.sha}`, content } };
+        },
+        createOrUpdateFileContents: async ({ content, sha }: any) => {
+          repo.writes++;
+          if (repo.fail)
+            throw Object.assign(new Error("Server Error"), {
+              status: repo.fail,
+            });
+          if (repo.racing > 0) {
+            repo.racing--;
+            repo.text += "<!-- other run -->\n";
+            repo.sha++;
+          }
+          if (sha !== `s${repo.sha}`)
+            throw Object.assign(new Error("Conflict"), { status: 409 });
+          repo.text = Buffer.from(content, "base64").toString("utf8");
+          repo.sha++;
+          return { data: { commit: { sha: `c${repo.sha}` } } };
+        },
+        updateRelease: async ({ body }: any) => {
+          repo.bodies.push(body);
+          return { data: {} };
+        },
+      },
+      pulls: {
+        get: async ({ pull_number }: any) => {
+          repo.pulls.push(pull_number);
+          throw Object.assign(new Error("Not Found"), { status: 404 });
+        },
+      },
+    },
+  };
+  return { repo, octo: octo as any };
+}
+
+const releaseCtx = (tag: string) =>
+  ({
+    repo: { owner: "o", repo: "r" },
+    payload: {
+      release: { id: 1, tag_name: tag, published_at: "2024-06-01T12:00:00Z" },
+    },
+    eventName: "release",
+    ref: `refs/tags/${tag}`,
+    serverUrl: "https://github.com",
+  } as unknown as Context);
+
+describe("releaseUnreleased", () => {
+  const text = addEntryToText(
+    releaseText(withEntries(commit), "1.2.0", "2024-05-01")!.text,
+    feature
+  );
+
+  it.each(["off", "warn", "annotate"] as const)(
+    "releases an invalid tag with tagValidation: %s",
+    async (mode) => {
+      const { repo, octo } = fakeRepo(text);
+      const cfg = await loadConfig("/nonexistent.yml");
+      cfg.tagValidation = mode;
+
+      const { notes, tagProblems } = await releaseUnreleased(
+        octo,
+        releaseCtx("v1.0"),
+        cfg
+      );
+      expect(notes).not.toBeNull();
+      expect(repo.text).toContain("## [1.0] – 2024-06-01\n");
+      expect(tagProblems).toEqual(
+        mode === "off" ? [] : ["Release tag v1.0 is not valid SemVer."]
+      );
+      expect(repo.bodies[0].startsWith("> [!WARNING]\n")).toBe(
+        mode === "annotate"
+      );
+    }
+  );
+
+  it("looks up PRs, not the #N in a commit's subject", async () => {
+    const { repo, octo } = fakeRepo(
+      addEntryToText(text, {
+        title: "handle #6 overflow",
+        category: "Fixes",
+        sha: "abcdef123456",
+      })
+    );
+    const cfg = await loadConfig("/nonexistent.yml");
+    await releaseUnreleased(octo, releaseCtx("v1.3.0"), cfg);
+    expect(repo.pulls).toEqual([11]);
+  });
+
+  it("fails on an invalid tag with tagValidation: fail", async () => {
+    const { repo, octo } = fakeRepo(text);
+    const cfg = await loadConfig("/nonexistent.yml");
+    cfg.tagValidation = "fail";
+
+    await expect(
+      releaseUnreleased(octo, releaseCtx("v1.0"), cfg)
+    ).rejects.toThrow(
+      "Release tag v1.0 is not valid SemVer. (tagValidation: fail)"
+    );
+    expect(repo.text).toBe(text);
+  });
+});
+
+describe("editChangelog", () => {
+  const ctx = releaseCtx("v1.0.0");
+  const addFix = (doc: Changelog) =>
+    upsertEntry(findUnreleased(doc)!, "Fixes", 9, ["- fix it (#9)"]);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /** Run `editChangelog`, letting its backoff timers fire. */
+  async function edit(octo: any, cfg: Config) {
+    const result = editChangelog(octo, ctx, cfg, "chore: edit", addFix);
+    result.catch(() => {}); // rejections are asserted by the caller
+    await vi.runAllTimersAsync();
+    return result;
+  }
+
+  it("re-reads and retries after a sha conflict", async () => {
+    const { repo, octo } = fakeRepo(withEntries(feature));
+    repo.racing = 1;
+    const cfg = await loadConfig("/nonexistent.yml");
+
+    expect(await edit(octo, cfg)).toBe("c3");
+    expect(repo.writes).toBe(2);
+    expect(repo.text).toContain("### Fixes\n- fix it (#9)\n");
+    expect(repo.text).toContain("<!-- other run -->");
+  });
+
+  it("gives up after writeAttempts conflicts", async () => {
+    const { repo, octo } = fakeRepo(withEntries(feature));
+    repo.racing = 3;
+    const cfg = await loadConfig("/nonexistent.yml");
+    cfg.writeAttempts = 3;
+
+    await expect(edit(octo, cfg)).rejects.toThrow(
+      "CHANGELOG.md on main kept changing underneath; gave up after 3 attempt(s) (409: Conflict)"
+    );
+    expect(repo.writes).toBe(3);
+  });
+
+  it("rethrows other errors without retrying", async () => {
+    const { repo, octo } = fakeRepo(withEntries(feature));
+    repo.fail = 500;
+    const cfg = await loadConfig("/nonexistent.yml");
+
+    await expect(edit(octo, cfg)).rejects.toThrow("Server Error");
+    expect(repo.writes).toBe(1);
+  });
+});
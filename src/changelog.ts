@@ -1,7 +1,74 @@
 import { Context } from "@actions/github/lib/context";
 import * as github from "@actions/github";
+import semver from "semver";
 type Octokit = ReturnType<typeof github.getOctokit>;
-import type { Config } from "./config.js";
+import {
+  DEFAULT_TEMPLATES,
+  type ChangelogTemplates,
+  type Config,
+  type DateFormat,
+  type ReleaseLine,
+} from "./config.js";
+import type { CategorizeResult } from "./categorize.js";
+import {
+  bumpForEntries,
+  effectiveBump,
+  nextVersion,
+  suggestBump,
+  versionProblems,
+  type Bump,
+  type BumpRules,
+} from "./semver.js";
+import {
+  assertLineBump,
+  changelogPathFor,
+  releaseLineFor,
+  versionBump,
+} from "./lines.js";
+import { githubReader } from "./github.js";
+import {
+  discoverPackages,
+  matchPackageTag,
+  packageChangelogPath,
+  type PackageMeta,
+} from "./monorepo.js";
+import {
+  BREAKING_MARKER,
+  addEntry,
+  ensureCategory,
+  ensureUnreleased,
+  findUnreleased,
+  findVersion,
+  latestVersion,
+  listEntries,
+  moveCategoryFirst,
+  parseChangelog,
+  pendingPrereleases,
+  refersTo,
+  releaseUnreleased as releaseUnreleasedSection,
+  renderChangelog,
+  removeEntries,
+  renderSectionBody,
+  updateCompareLinks,
+  upsertEntry,
+  type Category,
+  type Changelog,
+  type CompareLinks,
+  type EntryRef,
+  type Bullet,
+  type Item,
+  type Section,
+} from "./model.js";
+import {
+  contributorsEnabled,
+  findContributors,
+  renderContributors,
+} from "./contributors.js";
+import {
+  matchTemplate,
+  renderTemplate,
+  type TemplateVars,
+} from "./template.js";
 
 const HEADER = `# Changelog
 All notable changes to this project will be documented in this file.
@@ -14,9 +81,6 @@ All notable changes to this project will be documented in this file.
 
 const ENC = "utf8";
 
-// Accept "## [Unreleased]" or "## Unreleased" (case-insensitive)
-const UNRELEASED_HEADER_RE = /^##\s*\[?\s*unreleased\s*\]?\s*$/im;
-
 type FileData = { sha: string; content: string; branch: string };
 
 function b64enc(s: string) {
@@ -35,11 +99,23 @@ async function getDefaultBranch(
   return data.default_branch;
 }
 
-/** Prefer PR base or Release target; otherwise fallback (default branch). */
-function resolveTargetBranch(ctx: Context, fallback: string): string {
+/**
+ * Prefer PR base, Release target or the pushed branch; manual and scheduled
+ * runs on a release line branch stay there; otherwise fallback (default
+ * branch).
+ */
+function resolveTargetBranch(
+  ctx: Context,
+  fallback: string,
+  cfg?: Config
+): string {
   const prBase = (ctx.payload as any)?.pull_request?.base?.ref;
   const relTarget = (ctx.payload as any)?.release?.target_commitish;
-  return prBase || relTarget || fallback;
+  const head = /^refs\/heads\/(.+)$/.exec(ctx.ref ?? "")?.[1];
+  const pushed = ctx.eventName === "push" ? head : undefined;
+  const lineBranch =
+    cfg && head && releaseLineFor(cfg, head) ? head : undefined;
+  return prBase || relTarget || pushed || lineBranch || fallback;
 }
 
 async function getFile(
@@ -82,8 +158,8 @@ async function putFile(
   content: string,
   message: string,
   sha?: string
-) {
-  await octo.rest.repos.createOrUpdateFileContents({
+): Promise<string> {
+  const { data } = await octo.rest.repos.createOrUpdateFileContents({
     owner,
     repo,
     path,
@@ -92,44 +168,63 @@ async function putFile(
     content: b64enc(content),
     sha,
   });
+  return data.commit.sha!;
 }
 
-function captureUnreleased(text: string) {
-  const lines = text.split(/\r?\n/);
-  let start = -1;
-  for (let i = 0; i < lines.length; i++) {
-    if (UNRELEASED_HEADER_RE.test(lines[i])) {
-      start = i;
-      break;
-    }
-  }
-  if (start === -1) return { start: -1, end: -1, header: "", body: "", lines };
-
-  // find next "## " header
-  let end = lines.length;
-  for (let i = start + 1; i < lines.length; i++) {
-    if (/^##\s+/.test(lines[i])) {
-      end = i;
-      break;
-    }
-  }
-  const header = lines[start];
-  const body = lines.slice(start + 1, end).join("\n");
-  return { start, end, header, body, lines };
+// GitHub answers 409 for a stale sha and 422 when the sha is missing for an existing file
+function isShaConflict(err: any): boolean {
+  return (
+    err?.status === 409 ||
+    (err?.status === 422 && /sha/i.test(String(err?.message)))
+  );
 }
 
-function ensureHeaderAndUnreleased(text: string): string {
-  let t = text || "";
-  if (!/^\#\s*Changelog/im.test(t)) {
-    t = HEADER + t;
-  }
-  if (!UNRELEASED_HEADER_RE.test(t)) {
-    // Insert Unreleased as the first section after the intro
-    const idx = t.indexOf("\n## ");
-    if (idx >= 0) t = t.slice(0, idx) + "\n## [Unreleased]\n\n" + t.slice(idx);
-    else t += "\n## [Unreleased]\n\n";
+const BACKOFF_MS = 500;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+type FileUpdate = { content: string; message: string } | null;
+
+/**
+ * Read, transform and write a file. When another run changed it in between
+ * (sha conflict), re-read it, re-apply `transform` and retry with exponential
+ * backoff, up to `attempts` times. `transform` returns null to leave the file
+ * alone. Returns the commit SHA, or null when nothing was written.
+ */
+async function updateFile(
+  octo: Octokit,
+  owner: string,
+  repo: string,
+  path: string,
+  branch: string,
+  attempts: number,
+  transform: (file: { sha: string; content: string } | null) => FileUpdate
+): Promise<string | null> {
+  for (let attempt = 1; ; attempt++) {
+    const file = await getFile(octo, owner, repo, path, branch);
+    const update = transform(file);
+    if (!update || (file && update.content === file.content)) return null;
+
+    try {
+      return await putFile(
+        octo,
+        owner,
+        repo,
+        path,
+        branch,
+        update.content,
+        update.message,
+        file?.sha
+      );
+    } catch (err: any) {
+      if (!isShaConflict(err)) throw err;
+      if (attempt >= attempts)
+        throw new Error(
+          `${path} on ${branch} kept changing underneath; gave up after ${attempts} attempt(s) (${err.status}: ${err.message})`
+        );
+      await sleep(BACKOFF_MS * 2 ** (attempt - 1) * (1 + Math.random()));
+    }
   }
-  return t;
 }
 
 function normalizeTitleForBullet(title: string): string {
@@ -138,74 +233,699 @@ function normalizeTitleForBullet(title: string): string {
   return m ? m[2] : title.trim();
 }
 
-function formatBullet(title: string, prNumber: number, scope?: string): string {
-  const t = normalizeTitleForBullet(title);
-  const scopePrefix = scope ? `[${scope}] ` : "";
-  return `- ${scopePrefix}${t} (#${prNumber})`;
+// --- Text operations (shared by the action and the CLI) -----------------
+
+/** A PR's entry, or a direct commit's (no `prNumber`, keyed by `sha`). */
+export type ChangelogEntry = {
+  prNumber?: number;
+  title: string;
+  category: string;
+  scope?: string;
+  breaking?: boolean;
+  bullets?: string[]; // custom texts from the PR body; replace the title
+  breakingNote?: string; // written as a continuation line of the first bullet
+  // PR details for templates
+  url?: string;
+  author?: string;
+  labels?: string[];
+  sha?: string; // merge commit, or the direct commit itself
+  date?: string; // merge / commit date (YYYY-MM-DD)
+};
+
+export type UnreleasedSummary = {
+  name: string;
+  path: string;
+  entries: number;
+  bump: Bump;
+  currentVersion: string;
+  nextVersion: string;
+};
+
+/** One bullet of the machine-readable notes. */
+export type NotesEntry = {
+  pr?: number;
+  commit?: string; // short SHA of a direct commit
+  author?: string;
+  scope?: string;
+  breaking: boolean;
+  migration?: string; // breaking note written below the bullet
+  text: string; // the bullet's subject when the template allows reading it back
+};
+
+/** Machine-readable notes (the `notes-json` output). */
+export type NotesData = {
+  version?: string;
+  date?: string;
+  bump: Bump;
+  categories: Array<{ name: string; entries: NotesEntry[] }>;
+};
+
+/** A released section as GitHub Release body, changelog Markdown and data. */
+export type ReleaseNotes = { body: string; markdown: string; data: NotesData };
+
+const DATE_TOKEN_RE = /YYYY|MMMM|MMM|MM|M|DD|D/g;
+
+/**
+ * Format a date as YYYY-MM-DD, or with the `format` tokens, in `timeZone`
+ * (default: runner local time).
+ */
+export function formatDate(d: Date, opts: Partial<DateFormat> = {}): string {
+  const parts = (month: "2-digit" | "short" | "long") =>
+    Object.fromEntries(
+      new Intl.DateTimeFormat("en-US", {
+        timeZone: opts.timeZone,
+        year: "numeric",
+        month,
+        day: "2-digit",
+      })
+        .formatToParts(d)
+        .map((p) => [p.type, p.value])
+    );
+  const num = parts("2-digit");
+  const values: Record<string, string> = {
+    YYYY: num.year,
+    MM: num.month,
+    M: String(Number(num.month)),
+    DD: num.day,
+    D: String(Number(num.day)),
+  };
+  return (opts.format ?? "YYYY-MM-DD").replace(
+    DATE_TOKEN_RE,
+    (t) =>
+      values[t] ?? (t === "MMM" ? parts("short").month : parts("long").month)
+  );
+}
+
+/** Key of an entry in the changelog: PR number or short commit SHA. */
+export function entryRef(entry: ChangelogEntry): EntryRef {
+  return entry.prNumber ?? entry.sha!.slice(0, 7);
 }
 
-function catHeader(category: unknown): string {
-  if (typeof category !== "string")
-    throw new Error(`category must be string; got ${typeof category}`);
-  return `### ${category}`;
+/** "PR #12" / "commit 1a2b3c4", for messages. */
+export function describeEntry(entry: ChangelogEntry): string {
+  const ref = entryRef(entry);
+  return typeof ref === "number" ? `PR #${ref}` : `commit ${ref}`;
 }
 
-function insertIntoUnreleasedCategory(
-  unreleasedBody: string,
-  category: string,
-  bullet: string
-): string {
-  const categoryHeader = catHeader(category);
-  const lines = unreleasedBody.split("\n");
-
-  // Find existing category header (case-insensitive)
-  let catStart = -1;
-  for (let i = 0; i < lines.length; i++) {
-    if (lines[i].trim().toLowerCase() === categoryHeader.trim().toLowerCase()) {
-      catStart = i;
-      break;
+// Direct commits have no PR; their bullets show the short SHA where "#{{pr}}" would be
+const commitTemplate = (template: string) =>
+  template.replace(/#?\{\{pr\}\}/g, "{{sha}}");
+
+/** Template values of an entry (`subject` is the bullet text without the CC prefix). */
+function entryVars(entry: ChangelogEntry, subject: string): TemplateVars {
+  return {
+    subject: normalizeTitleForBullet(subject),
+    title: entry.title,
+    pr: entry.prNumber,
+    prUrl: entry.url,
+    author: entry.author,
+    labels: entry.labels?.join(", "),
+    sha: entry.sha?.slice(0, 7),
+    date: entry.date,
+    scope: entry.scope,
+    category: entry.category,
+    breaking: entry.breaking ? BREAKING_MARKER : "",
+  };
+}
+
+// Keep the machine-read parts of a bullet unambiguous when matching it back
+const BULLET_PATTERNS = {
+  pr: "\\d+",
+  sha: "[0-9a-f]{7,40}",
+  breaking: `(?:${BREAKING_MARKER.replace(/\*/g, "\\*")})?`,
+  scope: "[^\\]]+?",
+};
+
+/** Read template values back out of a bullet's text (null if it doesn't match). */
+function bulletVars(
+  text: string,
+  template: string
+): Record<string, string> | null {
+  return (
+    matchTemplate(template, text, BULLET_PATTERNS) ??
+    matchTemplate(commitTemplate(template), text, BULLET_PATTERNS)
+  );
+}
+
+/**
+ * Parse a changelog and key its bullets by the template they were written
+ * from: a PR bullet by its `{{pr}}`, a direct commit's bullet by no PR at all
+ * (so a "#N" in its subject isn't taken for one).
+ */
+export function parseWithTemplates(
+  text: string,
+  tpl: ChangelogTemplates
+): Changelog {
+  const doc = parseChangelog(text);
+  for (const section of doc.sections) {
+    for (const { bullet } of listEntries(section)) {
+      const vars = bulletVars(bullet.text, tpl.bullet);
+      if (vars) bullet.pr = vars.pr ? Number(vars.pr) : undefined;
     }
   }
+  return doc;
+}
+
+/**
+ * Whether a bullet is flagged breaking: by the template's `{{breaking}}`
+ * value when it has one, else by the marker at the start of the bullet.
+ */
+function bulletBreaking(
+  bullet: Bullet,
+  vars: Record<string, string> | null,
+  template: string
+): boolean {
+  return vars && template.includes("{{breaking}}")
+    ? !!vars.breaking
+    : bullet.breaking;
+}
+
+/** Bullet(s) for an entry: custom texts from the PR body, or the PR title. */
+export function formatEntryBullets(
+  entry: ChangelogEntry,
+  template = DEFAULT_TEMPLATES.bullet
+): string[] {
+  if (entry.prNumber === undefined) template = commitTemplate(template);
+  const texts = entry.bullets?.length ? entry.bullets : [entry.title];
+  return texts.map((t, i) => {
+    const breaking = entry.breaking && i === 0; // flag the entry once
+    const line = `- ${renderTemplate(
+      template,
+      entryVars({ ...entry, breaking }, t)
+    )}`;
+    return i === 0 && entry.breakingNote
+      ? `${line}\n  ${entry.breakingNote}`
+      : line;
+  });
+}
+
+/** Whether a PR (or commit) already has a bullet in the given section(s). */
+function hasEntry(sections: Section[], ref: EntryRef): boolean {
+  return sections.some((s) =>
+    listEntries(s).some((e) => refersTo(e.bullet, ref))
+  );
+}
 
-  if (catStart === -1) {
-    // Create category section at the end of Unreleased body
-    const trimmed = unreleasedBody.replace(/\s+$/s, "");
-    const suffix = unreleasedBody.slice(trimmed.length);
-    const block = `${
-      trimmed ? trimmed + "\n\n" : ""
-    }${categoryHeader}\n${bullet}\n`;
-    return block + suffix;
+/** Whether the Unreleased section already has a bullet for the PR (or commit). */
+export function hasUnreleasedEntry(
+  text: string,
+  ref: EntryRef,
+  tpl: ChangelogTemplates = DEFAULT_TEMPLATES
+): boolean {
+  const unreleased = findUnreleased(parseWithTemplates(text, tpl));
+  return !!unreleased && hasEntry([unreleased], ref);
+}
+
+/**
+ * Add an entry to the Unreleased section, keyed by PR number (short SHA for
+ * direct commits): bullets the PR already has there are replaced (and moved
+ * if the category changed). A breaking entry is also listed, with its note,
+ * in the `breakingHeader` section at the top. PRs that are already part of a
+ * released version are left alone. A missing file starts from the default
+ * header.
+ */
+export function addEntryToText(
+  text: string | null,
+  entry: ChangelogEntry,
+  tpl: ChangelogTemplates = DEFAULT_TEMPLATES
+): string {
+  const doc = parseWithTemplates(text ?? HEADER, tpl);
+  const unreleased = ensureUnreleased(doc);
+  const released = doc.sections.filter((s) => s !== unreleased);
+  if (text !== null && hasEntry(released, entryRef(entry))) return text;
+
+  const section = !!tpl.breakingHeader;
+  upsertEntry(
+    unreleased,
+    entry.category,
+    entryRef(entry),
+    formatEntryBullets(
+      section ? { ...entry, breakingNote: undefined } : entry,
+      tpl.bullet
+    ),
+    renderTemplate(tpl.categoryHeader, { category: entry.category })
+  );
+  if (section && entry.breaking) {
+    const cat = ensureCategory(unreleased, "", tpl.breakingHeader);
+    moveCategoryFirst(unreleased, cat);
+    // addEntry inserts at the top of the category, so add in reverse to keep order
+    for (const line of formatEntryBullets(
+      { ...entry, breaking: false },
+      tpl.bullet
+    ).reverse())
+      addEntry(unreleased, cat.name, line, cat.heading);
   }
+  return renderChangelog(doc);
+}
+
+/** Remove a PR's bullets from the Unreleased section. */
+export function removeEntryFromText(
+  text: string,
+  prNumber: number,
+  tpl: ChangelogTemplates = DEFAULT_TEMPLATES
+): string {
+  const doc = parseWithTemplates(text, tpl);
+  const unreleased = findUnreleased(doc);
+  if (!unreleased) return text;
+  if (!removeEntries(unreleased, (b) => b.pr === prNumber)) return text;
+  return renderChangelog(doc);
+}
+
+export type ReleaseOptions = {
+  templates?: ChangelogTemplates;
+  links?: CompareLinks; // refresh the compare links
+  prereleases?: Config["prereleases"];
+  line?: string; // release line name, {{line}} in the version header
+};
+
+const isPrerelease = (version: string) =>
+  semver.valid(version) !== null && semver.prerelease(version) !== null;
+
+/**
+ * Move Unreleased into a version section of `doc`. A stable version also
+ * gathers the entries of the prerelease sections leading up to it, which are
+ * then removed unless `prereleases.onStable` is "keep". Returns null when
+ * there is nothing to release.
+ */
+export function releaseVersion(
+  doc: Changelog,
+  version: string,
+  date: string,
+  opts: ReleaseOptions = {}
+): Section | null {
+  const tpl = opts.templates ?? DEFAULT_TEMPLATES;
+  const section = releaseUnreleasedSection(
+    doc,
+    version,
+    date,
+    renderTemplate(tpl.versionHeader, { version, date, line: opts.line }),
+    {
+      prereleases: isPrerelease(version)
+        ? []
+        : pendingPrereleases(doc, version),
+      keep: opts.prereleases?.onStable === "keep",
+    }
+  );
+  const breaking = section?.categories.find((c) => isBreakingCategory(c, tpl));
+  if (breaking) moveCategoryFirst(section!, breaking);
+  if (section && opts.links) updateCompareLinks(doc, opts.links);
+  return section;
+}
+
+/**
+ * Release a changelog text (see `releaseVersion`). With prerelease mode
+ * "release-only", a prerelease leaves the text unchanged and only yields the
+ * notes. Returns null when there is nothing to release.
+ */
+export function releaseText(
+  text: string,
+  version: string,
+  date: string,
+  opts: ReleaseOptions = {}
+): { text: string; body: string; section: Section } | null {
+  const doc = parseWithTemplates(text, opts.templates ?? DEFAULT_TEMPLATES);
+  const section = releaseVersion(doc, version, date, opts);
+  if (!section) return null; // nothing to move
+  if (isPrerelease(version) && opts.prereleases?.mode === "release-only")
+    return { text, body: renderSectionBody(section), section };
+  return {
+    text: renderChangelog(doc),
+    body: renderSectionBody(section),
+    section,
+  };
+}
 
-  // Insert bullet right after the category header (skip blank lines)
-  let insertAt = catStart + 1;
-  while (insertAt < lines.length && lines[insertAt].trim() === "") insertAt++;
-  lines.splice(insertAt, 0, bullet);
+/** Whether a category is the `breakingHeader` section (its entries are listed twice). */
+function isBreakingCategory(cat: Category, tpl: ChangelogTemplates): boolean {
+  return (
+    !!tpl.breakingHeader && cat.heading.trim() === tpl.breakingHeader.trim()
+  );
+}
 
-  // Ensure there is a trailing newline
-  if (lines.length === 0 || lines[lines.length - 1] !== "") lines.push("");
+/** Breaking note written as continuation lines below a bullet. */
+function bulletNote(bullet: Bullet): string | undefined {
+  const note = bullet.lines
+    .slice(1)
+    .map((l) => l.trim())
+    .join(" ");
+  return note || undefined;
+}
 
-  return lines.join("\n");
+/** PRs (or short SHAs) listed in the `breakingHeader` section of a section. */
+function breakingRefs(section: Section, tpl: ChangelogTemplates): EntryRef[] {
+  return section.categories
+    .filter((c) => isBreakingCategory(c, tpl))
+    .flatMap((c) =>
+      c.items.flatMap((it) => {
+        if (it.kind !== "bullet") return [];
+        const ref = it.pr ?? bulletVars(it.text, tpl.bullet)?.sha;
+        return ref === undefined ? [] : [ref];
+      })
+    );
 }
 
-function replaceUnreleasedSection(
-  fullText: string,
-  updater: (body: string) => string
+/** Category name of a heading written from the `categoryHeader` template. */
+function categoryName(cat: Category, template: string): string {
+  return matchTemplate(template, cat.heading)?.category ?? cat.name;
+}
+
+/**
+ * Rebuild a CategorizeResult for every entry in the Unreleased section;
+ * entries repeated in the `breakingHeader` section are breaking.
+ */
+export function parseUnreleasedEntries(
+  text: string,
+  tpl: ChangelogTemplates = DEFAULT_TEMPLATES
+): CategorizeResult[] {
+  const unreleased = findUnreleased(parseWithTemplates(text, tpl));
+  if (!unreleased) return [];
+  // The breaking section repeats entries; it marks them breaking instead of counting twice
+  const breaking = breakingRefs(unreleased, tpl);
+  const listed = new Set<EntryRef>();
+  const entries = unreleased.categories.flatMap((cat) => {
+    if (isBreakingCategory(cat, tpl)) return [];
+    const category = categoryName(cat, tpl.categoryHeader);
+    return cat.items.flatMap((it) => {
+      if (it.kind !== "bullet") return [];
+      const vars = bulletVars(it.text, tpl.bullet);
+      const refs = breaking.filter((ref) => refersTo(it, ref));
+      refs.forEach((ref) => listed.add(ref));
+      return [
+        {
+          category,
+          breaking: bulletBreaking(it, vars, tpl.bullet) || !!refs.length,
+          scope: vars ? vars.scope : it.scope,
+        },
+      ];
+    });
+  });
+  // Entries only listed in the breaking section (e.g. hand-written) still count
+  const orphans = breaking.filter((ref) => !listed.has(ref));
+  return [...entries, ...orphans.map(() => ({ category: "", breaking: true }))];
+}
+
+/**
+ * Notes data of a section. `authors` supplies the PR authors the bullets
+ * don't show themselves. Entries of the `breakingHeader` section are not
+ * repeated; they mark the same PR's entry breaking and their notes become
+ * its `migration`.
+ */
+export function sectionNotesData(
+  section: Section,
+  tpl: ChangelogTemplates = DEFAULT_TEMPLATES,
+  authors: (pr: number) => string | undefined = () => undefined,
+  rules?: BumpRules
+): NotesData {
+  const breaking = section.categories.filter((c) => isBreakingCategory(c, tpl));
+  const refs = breakingRefs(section, tpl);
+  const migration = (it: Bullet, sha?: string) => {
+    if (bulletNote(it)) return bulletNote(it);
+    const ref = it.pr ?? sha;
+    if (ref === undefined) return undefined;
+    for (const c of breaking)
+      for (const b of c.items)
+        if (b.kind === "bullet" && refersTo(b, ref)) return bulletNote(b);
+    return undefined;
+  };
+
+  const categories = section.categories
+    .filter((cat) => !breaking.includes(cat))
+    .map((cat) => ({
+      name: categoryName(cat, tpl.categoryHeader),
+      entries: cat.items.flatMap((it): NotesEntry[] => {
+        if (it.kind !== "bullet") return [];
+        const vars = bulletVars(it.text, tpl.bullet);
+        return [
+          {
+            pr: it.pr,
+            commit: it.pr ? undefined : vars?.sha,
+            author: vars?.author ?? (it.pr ? authors(it.pr) : undefined),
+            scope: vars ? vars.scope : it.scope,
+            breaking:
+              bulletBreaking(it, vars, tpl.bullet) ||
+              refs.some((ref) => refersTo(it, ref)),
+            migration: migration(it, vars?.sha),
+            text: vars?.subject ?? it.text,
+          },
+        ];
+      }),
+    }))
+    .filter((c) => c.entries.length);
+  return {
+    version: section.version,
+    date: section.date,
+    bump: effectiveBump(
+      section.version ?? "",
+      bumpForEntries(
+        categories.flatMap((c) =>
+          c.entries.map((e) => ({ category: c.name, ...e }))
+        ),
+        rules
+      ),
+      rules
+    ),
+    categories,
+  };
+}
+
+/** Notes data of the entry written for one merged PR or direct commit. */
+export function entryNotesData(
+  entry: ChangelogEntry,
+  bump: Bump,
+  version?: string
+): NotesData {
+  const texts = entry.bullets?.length ? entry.bullets : [entry.title];
+  return {
+    version,
+    date: entry.date,
+    bump,
+    categories: [
+      {
+        name: entry.category,
+        entries: texts.map((t, i) => ({
+          pr: entry.prNumber,
+          commit: entry.prNumber ? undefined : entry.sha?.slice(0, 7),
+          author: entry.author,
+          scope: entry.scope,
+          breaking: !!entry.breaking && i === 0,
+          migration: i === 0 ? entry.breakingNote : undefined,
+          text: normalizeTitleForBullet(t),
+        })),
+      },
+    ],
+  };
+}
+
+/**
+ * Release body for a version section. Without release templates it is the
+ * section as written; otherwise bullets written from the changelog template
+ * and category headings are re-rendered, `details` adding per-PR values.
+ */
+export function renderReleaseNotes(
+  section: Section,
+  templates: Config["templates"],
+  details: (pr: number) => TemplateVars = () => ({})
 ): string {
-  const t = ensureHeaderAndUnreleased(fullText);
-  const cap = captureUnreleased(t);
-  if (cap.start === -1) return t; // shouldn't happen after ensure
-  const updatedBody = updater(cap.body);
-  const before = cap.lines.slice(0, cap.start + 1).join("\n");
-  const after = cap.lines.slice(cap.end).join("\n");
-  // Normalize extra blank lines
-  return [before, updatedBody.trimEnd(), "", after]
+  const { changelog, release } = templates;
+  if (!release.bullet && !release.categoryHeader)
+    return renderSectionBody(section);
+
+  const lines = (items: Item[], category?: string): string[] =>
+    items.flatMap((it) => {
+      if (it.kind === "raw") return [it.line];
+      const vars = release.bullet
+        ? bulletVars(it.text, changelog.bullet)
+        : null;
+      if (!release.bullet || !vars || !it.pr) return it.lines;
+      const line = renderTemplate(release.bullet, {
+        version: section.version,
+        date: section.date,
+        ...vars,
+        category,
+        ...details(it.pr),
+      });
+      return [`- ${line}`, ...it.lines.slice(1)];
+    });
+
+  return [
+    ...lines(section.preamble),
+    ...section.categories.flatMap((c) => {
+      const category = categoryName(c, changelog.categoryHeader);
+      const heading = release.categoryHeader
+        ? renderTemplate(release.categoryHeader, { category })
+        : c.heading;
+      return [heading, ...lines(c.items, category)];
+    }),
+  ]
     .join("\n")
-    .replace(/\n{3,}/g, "\n\n");
+    .trim();
+}
+
+/** Version of the newest released section in a changelog, if any. */
+export function latestReleasedVersion(text: string): string | undefined {
+  return latestVersion(parseChangelog(text))?.version;
+}
+
+/**
+ * Summarize Unreleased; `fallbackVersion` (e.g. package.json) is used when
+ * nothing was released yet. The bump is the one applied to the current
+ * version (see `effectiveBump`).
+ */
+export function summarizeText(
+  name: string,
+  path: string,
+  text: string | null,
+  fallbackVersion?: string,
+  tpl: ChangelogTemplates = DEFAULT_TEMPLATES,
+  rules?: BumpRules
+): UnreleasedSummary {
+  const entries = text ? parseUnreleasedEntries(text, tpl) : [];
+  const currentVersion =
+    (text ? latestReleasedVersion(text) : undefined) ??
+    fallbackVersion ??
+    "0.0.0";
+  const bump = effectiveBump(
+    currentVersion,
+    bumpForEntries(entries, rules),
+    rules
+  );
+
+  return {
+    name,
+    path,
+    entries: entries.length,
+    bump,
+    currentVersion,
+    nextVersion: nextVersion(currentVersion, bump),
+  };
+}
+
+/** "version" field of a package.json text, if any. */
+export function packageJsonVersion(text: string | null): string | undefined {
+  try {
+    const v = text ? JSON.parse(text).version : undefined;
+    return typeof v === "string" ? v : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Replace the "version" field of a package.json text, keeping its formatting. */
+export function setPackageJsonVersion(text: string, version: string): string {
+  return text.replace(/("version"\s*:\s*")[^"]*(")/, `$1${version}$2`);
+}
+
+/** Whether entries should also go to `<package dir>/CHANGELOG.md`. */
+export function perPackageChangelogsEnabled(cfg: Config): boolean {
+  return !!cfg.monorepo?.enabled && !!cfg.monorepo.perPackageChangelogs;
+}
+
+/**
+ * Resolve which changelog file and version a release tag refers to, and the
+ * tag prefix its compare links use ("v", "@acme/api@", "api-v"). Root tags
+ * on a release line branch release the line's changelog.
+ */
+export function resolveReleaseTarget(
+  cfg: Config,
+  tag: string,
+  packages: PackageMeta[],
+  branch?: string
+): { path: string; version: string; tagPrefix: string } {
+  const hit = perPackageChangelogsEnabled(cfg)
+    ? matchPackageTag(tag, packages)
+    : undefined;
+  if (hit)
+    return {
+      path: packageChangelogPath(hit.pkg),
+      version: hit.version,
+      tagPrefix: tag.slice(0, -hit.version.length),
+    };
+  const prefix =
+    cfg.tagPrefix !== undefined && tag.startsWith(cfg.tagPrefix)
+      ? cfg.tagPrefix
+      : /^v/i.exec(tag)?.[0] ?? "";
+  return {
+    path: changelogPathFor(cfg, branch),
+    version: tag.slice(prefix.length) || "0.0.0",
+    tagPrefix: prefix,
+  };
+}
+
+/**
+ * Problems with releasing `tag` from a changelog text (see
+ * `versionProblems`); none with `tagValidation: off` or once its section
+ * exists, e.g. on re-runs.
+ */
+export function releaseTagProblems(
+  text: string,
+  tag: string,
+  tagPrefix: string,
+  cfg: Config
+): string[] {
+  const version = tag.slice(tagPrefix.length);
+  const doc = parseChangelog(text);
+  if (cfg.tagValidation === "off" || findVersion(doc, version)) return [];
+  const versions = semver.rsort(
+    doc.sections.flatMap((s) =>
+      s.version && semver.valid(s.version) ? [s.version] : []
+    )
+  );
+  const stable = versions.find((v) => !semver.prerelease(v));
+  const bump = effectiveBump(
+    stable ?? "",
+    bumpForEntries(
+      parseUnreleasedEntries(text, cfg.templates.changelog),
+      cfg.bump
+    ),
+    cfg.bump
+  );
+  return versionProblems(version, { latest: versions[0], stable }, bump).map(
+    (p) => `Release tag ${tag} ${p}.`
+  );
+}
+
+/** Release options from the config, with compare links for `tagPrefix` tags. */
+export function releaseOptions(
+  ctx: Context,
+  cfg: Config,
+  tagPrefix: string,
+  line?: ReleaseLine
+): ReleaseOptions {
+  return {
+    templates: cfg.templates.changelog,
+    links: compareLinks(ctx, cfg, tagPrefix),
+    prereleases: cfg.prereleases,
+    line: line?.name,
+  };
+}
+
+/** Compare-link settings for this repo, or undefined when `compareLinks` is off. */
+export function compareLinks(
+  ctx: Context,
+  cfg: Config,
+  tagPrefix: string
+): CompareLinks | undefined {
+  if (!cfg.compareLinks) return undefined;
+  const { owner, repo } = ctx.repo;
+  return { repoUrl: `${ctx.serverUrl}/${owner}/${repo}`, tagPrefix };
 }
 
 // --- Public API ----------------------------------------------------------
 
+/** Branch the changelog lives on for this event (PR base, release target, release line or default branch). */
+export async function getTargetBranch(
+  octo: Octokit,
+  ctx: Context,
+  cfg?: Config
+): Promise<string> {
+  const { owner, repo } = ctx.repo;
+  return resolveTargetBranch(
+    ctx,
+    await getDefaultBranch(octo, owner, repo),
+    cfg
+  );
+}
+
 export async function ensureChangelog(
   octo: Octokit,
   ctx: Context,
@@ -213,140 +933,486 @@ export async function ensureChangelog(
 ): Promise<FileData> {
   const { owner, repo } = ctx.repo;
   const defaultBranch = await getDefaultBranch(octo, owner, repo);
-  const branch = resolveTargetBranch(ctx, defaultBranch);
-  const path = cfg.changelogPath ?? "CHANGELOG.md";
+  const branch = resolveTargetBranch(ctx, defaultBranch, cfg);
+  const path = changelogPathFor(cfg, branch);
+
+  await updateFile(
+    octo,
+    owner,
+    repo,
+    path,
+    branch,
+    cfg.writeAttempts,
+    (file) => {
+      if (!file) {
+        if (cfg.failOnMissing)
+          throw new Error(`${path} not found on ${branch} (fail-on-missing)`);
+        return {
+          content: HEADER,
+          message: "chore(relnote): initialize CHANGELOG.md",
+        };
+      }
+      const doc = parseChangelog(file.content);
+      ensureUnreleased(doc);
+      return {
+        content: renderChangelog(doc),
+        message: "chore(relnote): ensure Unreleased section",
+      };
+    }
+  );
+
+  const file = await getFile(octo, owner, repo, path, branch);
+  if (!file) throw new Error(`Failed to create ${path}`);
+  return { sha: file.sha, content: file.content, branch };
+}
+
+async function addEntryToFile(
+  octo: Octokit,
+  owner: string,
+  repo: string,
+  path: string,
+  branch: string,
+  entry: ChangelogEntry,
+  opts: {
+    attempts: number;
+    templates: ChangelogTemplates;
+    failOnMissing?: boolean;
+  }
+) {
+  await updateFile(octo, owner, repo, path, branch, opts.attempts, (file) => {
+    if (!file && opts.failOnMissing)
+      throw new Error(`${path} not found on ${branch} (fail-on-missing)`);
+    const verb =
+      file && hasUnreleasedEntry(file.content, entryRef(entry), opts.templates)
+        ? "update"
+        : "add";
+    return {
+      content: addEntryToText(file?.content ?? null, entry, opts.templates),
+      message: `chore(relnote): ${verb} ${describeEntry(entry)} in Unreleased`,
+    };
+  });
+}
+
+async function removeEntryFromFile(
+  octo: Octokit,
+  owner: string,
+  repo: string,
+  path: string,
+  branch: string,
+  prNumber: number,
+  opts: { attempts: number; templates: ChangelogTemplates }
+) {
+  await updateFile(octo, owner, repo, path, branch, opts.attempts, (file) =>
+    file
+      ? {
+          content: removeEntryFromText(file.content, prNumber, opts.templates),
+          message: `chore(relnote): remove PR #${prNumber} from Unreleased`,
+        }
+      : null
+  );
+}
+
+/**
+ * The bump an entry applies to the target branch's current version (see
+ * `effectiveBump`); the branch is only read when `bump.initialDevelopment`
+ * is on.
+ */
+export async function entryBump(
+  octo: Octokit,
+  ctx: Context,
+  cfg: Config,
+  res: CategorizeResult
+): Promise<Bump> {
+  const bump = suggestBump(res, cfg.bump);
+  if (!cfg.bump.initialDevelopment) return bump;
+  const branch = await getTargetBranch(octo, ctx, cfg);
+  const reader = githubReader(octo, ctx.repo.owner, ctx.repo.repo, branch);
+  const text = await reader.readText(changelogPathFor(cfg, branch));
+  const current =
+    (text ? latestReleasedVersion(text) : undefined) ??
+    packageJsonVersion(await reader.readText("package.json")) ??
+    "0.0.0";
+  return effectiveBump(current, bump, cfg.bump);
+}
+
+/**
+ * Add or update a PR's (or direct commit's) bullets in the root changelog's
+ * Unreleased section.
+ * With `monorepo.perPackageChangelogs`, the bullets are also written (without
+ * the scope prefix) to the CHANGELOG.md of every touched package.
+ */
+export async function addUnreleasedEntry(
+  octo: Octokit,
+  ctx: Context,
+  cfg: Config,
+  entry: ChangelogEntry,
+  packages: PackageMeta[] = []
+) {
+  const { owner, repo } = ctx.repo;
+  const defaultBranch = await getDefaultBranch(octo, owner, repo);
+  const branch = resolveTargetBranch(ctx, defaultBranch, cfg);
+  const line = releaseLineFor(cfg, branch);
+  if (line)
+    assertLineBump(
+      line,
+      await entryBump(octo, ctx, cfg, {
+        category: entry.category,
+        breaking: !!entry.breaking,
+      }),
+      describeEntry(entry)
+    );
 
-  const existing = await getFile(octo, owner, repo, path, branch);
-  if (!existing) {
-    await putFile(
+  const opts = {
+    attempts: cfg.writeAttempts,
+    templates: cfg.templates.changelog,
+    failOnMissing: cfg.failOnMissing,
+  };
+  await addEntryToFile(
+    octo,
+    owner,
+    repo,
+    changelogPathFor(cfg, branch),
+    branch,
+    entry,
+    opts
+  );
+  if (line?.forwardPort && branch !== defaultBranch) {
+    await addEntryToFile(
       octo,
       owner,
       repo,
-      path,
-      branch,
-      HEADER,
-      "chore(relnote): initialize CHANGELOG.md"
+      changelogPathFor(cfg, defaultBranch),
+      defaultBranch,
+      entry,
+      opts
     );
-    const fresh = await getFile(octo, owner, repo, path, branch);
-    if (!fresh) throw new Error("Failed to create CHANGELOG.md");
-    return { sha: fresh.sha, content: fresh.content, branch };
   }
 
-  const ensured = ensureHeaderAndUnreleased(existing.content);
-  if (ensured !== existing.content) {
-    await putFile(
+  if (!perPackageChangelogsEnabled(cfg)) return;
+  for (const pkg of packages) {
+    await addEntryToFile(
       octo,
       owner,
       repo,
-      path,
+      packageChangelogPath(pkg),
       branch,
-      ensured,
-      "chore(relnote): ensure Unreleased section",
-      existing.sha
+      { ...entry, scope: undefined },
+      { attempts: cfg.writeAttempts, templates: cfg.templates.changelog }
     );
-    const updated = await getFile(octo, owner, repo, path, branch);
-    if (!updated) throw new Error("Failed to update CHANGELOG.md");
-    return { sha: updated.sha, content: updated.content, branch };
   }
-
-  return { sha: existing.sha, content: existing.content, branch };
 }
 
-export async function addUnreleasedEntry(
+/** Drop a PR's bullets from Unreleased (root and touched package changelogs). */
+export async function removeUnreleasedEntry(
   octo: Octokit,
   ctx: Context,
   cfg: Config,
-  entry: { prNumber: number; title: string; category: string; scope?: string }
+  prNumber: number,
+  packages: PackageMeta[] = []
 ) {
   const { owner, repo } = ctx.repo;
-  const path = cfg.changelogPath ?? "CHANGELOG.md";
   const defaultBranch = await getDefaultBranch(octo, owner, repo);
-  const branch = resolveTargetBranch(ctx, defaultBranch);
-
-  const file = await getFile(octo, owner, repo, path, branch);
-  const base = file?.content ?? HEADER;
-
-  const next = replaceUnreleasedSection(
-    ensureHeaderAndUnreleased(base),
-    (body) =>
-      insertIntoUnreleasedCategory(
-        body,
-        entry.category,
-        formatBullet(entry.title, entry.prNumber, entry.scope)
-      )
-  );
+  const branch = resolveTargetBranch(ctx, defaultBranch, cfg);
+  const files = [{ path: changelogPathFor(cfg, branch), branch }];
+  if (releaseLineFor(cfg, branch)?.forwardPort && branch !== defaultBranch)
+    files.push({
+      path: changelogPathFor(cfg, defaultBranch),
+      branch: defaultBranch,
+    });
+  if (perPackageChangelogsEnabled(cfg))
+    files.push(
+      ...packages.map((pkg) => ({ path: packageChangelogPath(pkg), branch }))
+    );
 
-  await putFile(
-    octo,
-    owner,
-    repo,
-    path,
-    branch,
-    next,
-    `chore(relnote): add PR #${entry.prNumber} to Unreleased`,
-    file?.sha
-  );
+  for (const file of files) {
+    await removeEntryFromFile(
+      octo,
+      owner,
+      repo,
+      file.path,
+      file.branch,
+      prNumber,
+      { attempts: cfg.writeAttempts, templates: cfg.templates.changelog }
+    );
+  }
 }
 
+/**
+ * Move Unreleased into a version section for the published release tag.
+ * Package-scoped tags ("@acme/api@1.4.0", "api-v1.4.0") only release the
+ * matching package's changelog when `monorepo.perPackageChangelogs` is on.
+ * The tag is checked against the changelog first (`tagValidation`). The
+ * section is dated from the release's `published_at` (else `created_at`) in
+ * `dates.timeZone`; a rerun for a version already in the changelog keeps that
+ * section and its date and only refreshes the release body. Returns the
+ * released notes (null when nothing was moved) and the tag problems.
+ */
 export async function releaseUnreleased(
   octo: Octokit,
   ctx: Context,
   cfg: Config
-) {
+): Promise<{ notes: ReleaseNotes | null; tagProblems: string[] }> {
   const { owner, repo } = ctx.repo;
-  const path = cfg.changelogPath ?? "CHANGELOG.md";
   const defaultBranch = await getDefaultBranch(octo, owner, repo);
-  const branch = resolveTargetBranch(ctx, defaultBranch);
+  const branch = resolveTargetBranch(ctx, defaultBranch, cfg);
 
-  const file = await getFile(octo, owner, repo, path, branch);
-  if (!file) return; // no changelog to update
-
-  const now = new Date();
-  const yyyy = now.getFullYear();
-  const mm = String(now.getMonth() + 1).padStart(2, "0");
-  const dd = String(now.getDate()).padStart(2, "0");
-  const dateStr = `${yyyy}-${mm}-${dd}`;
-
-  // Pull version tag from the release event
-  const tag = (ctx.payload as any)?.release?.tag_name ?? "";
-  const version = tag.replace(/^v/i, "") || "0.0.0";
-  const versionHeader = `## [${version}] – ${dateStr}\n`;
-
-  // Extract Unreleased section body
-  const cap = captureUnreleased(file.content);
-  const unreleasedBody = cap.body.trim();
-  if (!unreleasedBody) return; // nothing to move
-
-  // Move Unreleased → versioned section, keep Unreleased header in place
-  const next = (() => {
-    const before = cap.lines.slice(0, cap.start + 1).join("\n");
-    const after = cap.lines.slice(cap.end).join("\n");
-    const cleanBody = unreleasedBody.trimEnd();
-    // Insert version section right after Unreleased header; keep Unreleased empty for future entries
-    return [before, "", `${versionHeader}${cleanBody}\n`, after]
-      .join("\n")
-      .replace(/\n{3,}/g, "\n\n");
-  })();
-
-  await putFile(
+  // Pull version tag and date from the release event
+  const release = (ctx.payload as any)?.release;
+  const tag = release?.tag_name ?? "";
+  const releasedAt = release?.published_at ?? release?.created_at;
+  const date = formatDate(
+    releasedAt ? new Date(releasedAt) : new Date(),
+    cfg.dates
+  );
+  const packages = perPackageChangelogsEnabled(cfg)
+    ? await discoverPackages(
+        githubReader(octo, owner, repo, branch),
+        cfg.monorepo.packages
+      )
+    : [];
+  const { path, version, tagPrefix } = resolveReleaseTarget(
+    cfg,
+    tag,
+    packages,
+    branch
+  );
+  const line = releaseLineFor(cfg, branch);
+  const opts = releaseOptions(ctx, cfg, tagPrefix, line);
+
+  let section = null as Section | null;
+  let tagProblems: string[] = [];
+  await updateFile(
     octo,
     owner,
     repo,
     path,
     branch,
-    next,
-    `chore(relnote): release ${version}`,
-    file.sha
+    cfg.writeAttempts,
+    (file) => {
+      if (!file) {
+        if (cfg.failOnMissing)
+          throw new Error(`${path} not found on ${branch} (fail-on-missing)`);
+        return null; // no changelog to update
+      }
+      const existing = findVersion(
+        parseWithTemplates(file.content, cfg.templates.changelog),
+        version
+      );
+      if (existing) {
+        section = existing; // rerun: keep the section and its original date
+        return null;
+      }
+      const latest = latestReleasedVersion(file.content);
+      if (latest && path === line?.changelogPath)
+        assertLineBump(line, versionBump(latest, version), `Release ${tag}`);
+      tagProblems = releaseTagProblems(file.content, tag, tagPrefix, cfg);
+      if (tagProblems.length && cfg.tagValidation === "fail")
+        throw new Error(`${tagProblems.join(" ")} (tagValidation: fail)`);
+      const released = releaseText(file.content, version, date, opts);
+      section = released?.section ?? null;
+      return released
+        ? {
+            content: released.text,
+            message: `chore(relnote): release ${version}`,
+          }
+        : null; // nothing to move
+    }
   );
+  if (!section) return { notes: null, tagProblems };
 
   // Mirror in the GitHub Release body
-  const releaseId = (ctx.payload as any)?.release?.id as number | undefined;
+  const notes = await releaseNotes(octo, ctx, cfg, section);
+  const warning =
+    cfg.tagValidation === "annotate" && tagProblems.length
+      ? `> [!WARNING]\n${tagProblems.map((p) => `> ${p}`).join("\n")}\n\n`
+      : "";
+  const releaseId = release?.id as number | undefined;
   if (releaseId) {
     await octo.rest.repos.updateRelease({
       owner,
       repo,
       release_id: releaseId,
-      body: `${unreleasedBody}\n`,
+      body: `${warning}${notes.body}\n`,
     });
   }
+  return { notes, tagProblems };
+}
+
+type PullData = {
+  number: number;
+  title: string;
+  html_url: string;
+  user: { login: string } | null;
+  labels: Array<{ name?: string }>;
+  merge_commit_sha: string | null;
+  merged_at: string | null;
+};
+
+/** Template values of a REST pull request. */
+function prVars(pr: PullData, dates: DateFormat): TemplateVars {
+  return {
+    title: pr.title,
+    prUrl: pr.html_url,
+    author: pr.user?.login,
+    labels: pr.labels.map((l) => l.name).join(", "),
+    sha: pr.merge_commit_sha?.slice(0, 7),
+    date: pr.merged_at ? formatDate(new Date(pr.merged_at), dates) : undefined,
+  };
+}
+
+/**
+ * Release notes for a version section: the release body (re-rendered section
+ * plus contributor sections), the section as written and its data. Fetches
+ * every referenced PR once for authors and template values.
+ */
+export async function releaseNotes(
+  octo: Octokit,
+  ctx: Context,
+  cfg: Config,
+  section: Section
+): Promise<ReleaseNotes> {
+  const { owner, repo } = ctx.repo;
+
+  const pulls = new Map<number, PullData | null>();
+  for (const { bullet } of listEntries(section)) {
+    if (!bullet.pr || pulls.has(bullet.pr)) continue;
+    try {
+      const { data } = await octo.rest.pulls.get({
+        owner,
+        repo,
+        pull_number: bullet.pr,
+      });
+      pulls.set(bullet.pr, data);
+    } catch (err: any) {
+      if (err?.status !== 404) throw err; // "#123" may be an issue
+      pulls.set(bullet.pr, null);
+    }
+  }
+
+  const notes = renderReleaseNotes(section, cfg.templates, (pr) => {
+    const pull = pulls.get(pr);
+    return pull
+      ? prVars(pull, cfg.dates)
+      : { prUrl: `${ctx.serverUrl}/${owner}/${repo}/pull/${pr}` };
+  });
+  return {
+    body: await withContributors(octo, ctx, cfg, notes, pulls),
+    markdown: [section.heading, "", renderSectionBody(section)].join("\n"),
+    data: sectionNotesData(
+      section,
+      cfg.templates.changelog,
+      (pr) => pulls.get(pr)?.user?.login,
+      cfg.bump
+    ),
+  };
+}
+
+/** Append the contributor sections (if enabled) to a release body. */
+async function withContributors(
+  octo: Octokit,
+  ctx: Context,
+  cfg: Config,
+  notes: string,
+  pulls: Map<number, PullData | null>
+): Promise<string> {
+  if (!contributorsEnabled(cfg)) return notes;
+  const { owner, repo } = ctx.repo;
+  const merged = [...pulls.values()].filter(
+    (p): p is PullData => !!p?.merged_at
+  );
+  const contributors = await findContributors(
+    octo,
+    owner,
+    repo,
+    merged.map((p) => ({
+      number: p.number,
+      author: p.user?.login,
+      mergedAt: p.merged_at,
+    })),
+    cfg
+  );
+  const credit = renderContributors(contributors, cfg);
+  return credit ? `${notes}\n\n${credit}` : notes;
+}
+
+/**
+ * Read the root changelog on the target branch, apply a model mutation and
+ * write it back. `mutate` runs again on a fresh copy after a write conflict.
+ * Returns the new commit SHA, or null when the text didn't change.
+ */
+export async function editChangelog(
+  octo: Octokit,
+  ctx: Context,
+  cfg: Config,
+  message: string,
+  mutate: (doc: Changelog) => void
+): Promise<string | null> {
+  const { owner, repo } = ctx.repo;
+  const defaultBranch = await getDefaultBranch(octo, owner, repo);
+  const branch = resolveTargetBranch(ctx, defaultBranch, cfg);
+  const path = changelogPathFor(cfg, branch);
+
+  return updateFile(
+    octo,
+    owner,
+    repo,
+    path,
+    branch,
+    cfg.writeAttempts,
+    (file) => {
+      if (!file && cfg.failOnMissing)
+        throw new Error(`${path} not found on ${branch} (fail-on-missing)`);
+      const doc = parseWithTemplates(
+        file?.content ?? HEADER,
+        cfg.templates.changelog
+      );
+      ensureUnreleased(doc);
+      mutate(doc);
+      return { content: renderChangelog(doc), message };
+    }
+  );
+}
+
+/**
+ * Compute the aggregate bump and next version from the Unreleased entries of
+ * the root changelog and (with `monorepo.perPackageChangelogs`) every package.
+ */
+export async function summarizeUnreleased(
+  octo: Octokit,
+  ctx: Context,
+  cfg: Config
+): Promise<{ root: UnreleasedSummary; packages: UnreleasedSummary[] }> {
+  const { owner, repo } = ctx.repo;
+  const defaultBranch = await getDefaultBranch(octo, owner, repo);
+  const branch = resolveTargetBranch(ctx, defaultBranch, cfg);
+  const path = changelogPathFor(cfg, branch);
+  const reader = githubReader(octo, owner, repo, branch);
+
+  const root = summarizeText(
+    repo,
+    path,
+    await reader.readText(path),
+    packageJsonVersion(await reader.readText("package.json")),
+    cfg.templates.changelog,
+    cfg.bump
+  );
+
+  const packages: UnreleasedSummary[] = [];
+  if (perPackageChangelogsEnabled(cfg)) {
+    for (const pkg of await discoverPackages(reader, cfg.monorepo.packages)) {
+      const pkgPath = packageChangelogPath(pkg);
+      packages.push(
+        summarizeText(
+          pkg.name ?? pkg.dir,
+          pkgPath,
+          await reader.readText(pkgPath),
+          packageJsonVersion(await reader.readText(`${pkg.dir}/package.json`)),
+          cfg.templates.changelog,
+          cfg.bump
+        )
+      );
+    }
+  }
+
+  return { root, packages };
 }
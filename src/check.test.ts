@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { checkPullRequest } from "./check.js";
+import { loadConfig, type Config } from "./config.js";
+
+const withCheck = async (check: Config["check"], monorepo = false) => {
+  const cfg = await loadConfig("/nonexistent.yml");
+  cfg.check = check;
+  cfg.monorepo.enabled = monorepo;
+  return cfg;
+};
+const titles = (problems: Array<{ title: string }>) =>
+  problems.map((p) => p.title);
+
+describe("checkPullRequest", () => {
+  it("passes a Conventional title with a configured type", async () => {
+    expect(
+      checkPullRequest("feat: add search", [], await withCheck({}))
+    ).toEqual([]);
+  });
+
+  it("needs a category from the title, a label or the PR body", async () => {
+    const cfg = await withCheck({});
+    expect(titles(checkPullRequest("Add search", [], cfg))).toEqual([
+      "No changelog category",
+    ]);
+    expect(checkPullRequest("Add search", ["enhancement"], cfg)).toEqual([]);
+    expect(
+      checkPullRequest("Add search", [], cfg, [], {
+        bullets: [],
+        category: "Fixes",
+        skip: false,
+      })
+    ).toEqual([]);
+    expect(
+      titles(
+        checkPullRequest("Add search", [], cfg, [], {
+          bullets: [],
+          category: "Nope",
+          skip: false,
+        })
+      )
+    ).toEqual(["Unknown category"]);
+  });
+
+  it("only allows the configured types", async () => {
+    const cfg = await withCheck({ types: ["feat", " Fix "] });
+    expect(checkPullRequest("fix: clamp input", [], cfg)).toEqual([]);
+    expect(checkPullRequest("perf: faster export", [], cfg)).toEqual([
+      {
+        title: "Type not allowed",
+        message: 'Type "perf" is not allowed; use one of: feat, fix.',
+      },
+    ]);
+  });
+
+  it("limits the subject length", async () => {
+    const cfg = await withCheck({ maxSubjectLength: 10 });
+    expect(checkPullRequest("feat(api): add search", [], cfg)).toEqual([]);
+    expect(checkPullRequest("feat: add full-text search", [], cfg)).toEqual([
+      {
+        title: "Subject too long",
+        message: "Subject is 20 characters; the limit is 10.",
+      },
+    ]);
+  });
+
+  it("requires a scope naming a touched package in a monorepo", async () => {
+    const cfg = await withCheck({ requireScope: true }, true);
+    const touched = [{ dir: "packages/api", name: "@acme/api" }];
+    expect(checkPullRequest("feat(api): add search", [], cfg, touched)).toEqual(
+      []
+    );
+    expect(
+      checkPullRequest("feat(@acme/api): add search", [], cfg, touched)
+    ).toEqual([]);
+    expect(checkPullRequest("feat(web): add search", [], cfg, touched)).toEqual(
+      [
+        {
+          title: "Scope required",
+          message:
+            'This PR touches @acme/api; the title needs a scope naming one of them, e.g. "feat(@acme/api): …".',
+        },
+      ]
+    );
+    // No packages touched, or not a monorepo: nothing to name
+    expect(checkPullRequest("feat: add search", [], cfg)).toEqual([]);
+    const single = await withCheck({ requireScope: true });
+    expect(checkPullRequest("feat: add search", [], single, touched)).toEqual(
+      []
+    );
+  });
+
+  it("skips PRs that opt out of the changelog", async () => {
+    const cfg = await withCheck({ types: ["feat"] });
+    expect(
+      checkPullRequest("wip", [], cfg, [], { bullets: [], skip: true })
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+import type { Config } from "./config.js";
+import {
+  categorize,
+  parseConventionalTitle,
+  resolveCategory,
+} from "./categorize.js";
+import type { PackageMeta } from "./monorepo.js";
+import type { BodyOverride } from "./prbody.js";
+
+export type CheckProblem = { title: string; message: string };
+
+/**
+ * Validate a PR title/labels against the policy in `cfg.check`. An empty
+ * result means the PR will be filed under a real category (not a fallback).
+ * PRs that opt out of the changelog are not checked.
+ */
+export function checkPullRequest(
+  title: string,
+  labels: string[],
+  cfg: Config,
+  touched: PackageMeta[] = [],
+  override?: BodyOverride
+): CheckProblem[] {
+  const problems: CheckProblem[] = [];
+  if (override?.skip) return problems;
+
+  if (override?.category && !resolveCategory(override.category, cfg)) {
+    problems.push({
+      title: "Unknown category",
+      message: `"category: ${override.category}" in the PR body doesn't match a configured category.`,
+    });
+  }
+
+  const policy = cfg.check ?? {};
+  const cc = parseConventionalTitle(title);
+  const res = categorize(title, labels, cfg);
+
+  if (res.source === "fallback" && !override?.category) {
+    problems.push({
+      title: "No changelog category",
+      message: cc
+        ? `Type "${cc.type}" and labels [${labels.join(
+            ", "
+          )}] don't map to any configured category (${Object.keys(
+            cfg.categories
+          ).join(", ")}).`
+        : `Title is not a Conventional Commit ("type(scope): subject") and no label maps to a configured category.`,
+    });
+  }
+
+  if (cc && policy.types?.length) {
+    const allowed = policy.types.map((t) => t.trim().toLowerCase());
+    if (!allowed.includes(cc.type)) {
+      problems.push({
+        title: "Type not allowed",
+        message: `Type "${cc.type}" is not allowed; use one of: ${allowed.join(
+          ", "
+        )}.`,
+      });
+    }
+  }
+
+  if (
+    cc &&
+    policy.maxSubjectLength &&
+    cc.subject.length > policy.maxSubjectLength
+  ) {
+    problems.push({
+      title: "Subject too long",
+      message: `Subject is ${cc.subject.length} characters; the limit is ${policy.maxSubjectLength}.`,
+    });
+  }
+
+  if (policy.requireScope && cfg.monorepo?.enabled && touched.length) {
+    const names = touched.flatMap((p) =>
+      [p.name, p.dir.split("/").pop()].filter((n): n is string => !!n)
+    );
+    if (!cc?.scope || !names.includes(cc.scope)) {
+      problems.push({
+        title: "Scope required",
+        message: `This PR touches ${touched
+          .map((p) => p.name ?? p.dir)
+          .join(", ")}; the title needs a scope naming one of them, e.g. "${
+          cc?.type ?? "feat"
+        }(${names[0]}): …".`,
+      });
+    }
+  }
+
+  return problems;
+}
@@ -0,0 +1,146 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { git } from "./local.js";
+
+// cli.ts runs `main()` on import: each test sets process.argv and imports it
+// again, against a fresh git checkout in a temp directory.
+const log = vi.spyOn(console, "log").mockImplementation(() => {});
+const error = vi.spyOn(console, "error").mockImplementation(() => {});
+const printed = () => log.mock.calls.map((c) => c.join(" ")).join("\n");
+
+/** Run the CLI in `cwd` and wait for `done` to hold. */
+async function runCli(cwd: string, args: string[], done: () => void) {
+  process.argv = ["node", "relnote-pro", ...args, "--cwd", cwd];
+  vi.resetModules();
+  await import("./cli.js");
+  await vi.waitFor(done);
+}
+
+let cwd: string;
+const read = (file: string) => fs.readFile(path.join(cwd, file), "utf8");
+const write = (file: string, text: string) =>
+  fs
+    .mkdir(path.dirname(path.join(cwd, file)), { recursive: true })
+    .then(() => fs.writeFile(path.join(cwd, file), text));
+
+const commitAll = async (message: string) => {
+  await git(cwd, ["add", "-A"]);
+  await git(cwd, [
+    "-c",
+    "user.name=test",
+    "-c",
+    "user.email=test@example.com",
+    "commit",
+    "-qm",
+    message,
+  ]);
+};
+
+beforeEach(async () => {
+  vi.clearAllMocks();
+  process.exitCode = undefined;
+  cwd = await fs.mkdtemp(path.join(os.tmpdir(), "relnote-cli-"));
+  await write("README.md", "# demo\n");
+  await git(cwd, ["init", "-q", "-b", "main"]);
+  await commitAll("init");
+});
+
+afterEach(async () => {
+  process.exitCode = undefined;
+  await fs.rm(cwd, { recursive: true, force: true });
+});
+
+describe("relnote-pro add", () => {
+  it("adds the entry to Unreleased", async () => {
+    await runCli(cwd, ["add", "--title", "feat: add search", "--pr", "5"], () =>
+      expect(printed()).toContain("CHANGELOG.md: Features ← #5")
+    );
+    expect(await read("CHANGELOG.md")).toContain(
+      "## [Unreleased]\n\n### Features\n- add search (#5)\n"
+    );
+  });
+
+  it("skips a PR whose untracked files are all excluded", async () => {
+    await write(".relnote-pro.yml", 'excludePaths: ["docs/**"]\n');
+    await commitAll("config");
+    await write("docs/guide.md", "new page\n");
+    await runCli(cwd, ["add", "--title", "docs: add guide", "--pr", "6"], () =>
+      expect(printed()).toBe(
+        "#6: no entry (every changed file matches `excludePaths`)"
+      )
+    );
+    await expect(read("CHANGELOG.md")).rejects.toThrow();
+  });
+
+  it("caps a release line's bump after the 0.x rules", async () => {
+    await write(
+      ".relnote-pro.yml",
+      'bump:\n  initialDevelopment: true\nreleaseLines:\n  - name: "0.x"\n    branch: "release/0.x"\n'
+    );
+    await write(
+      "CHANGELOG-0.x.md",
+      "# Changelog\n\n## [Unreleased]\n\n## [0.3.0]\n"
+    );
+    await commitAll("config");
+    await git(cwd, ["checkout", "-q", "-b", "release/0.x"]);
+    await runCli(cwd, ["add", "--title", "feat!: drop v1", "--pr", "7"], () =>
+      expect(printed()).toContain("CHANGELOG-0.x.md: Features ← #7")
+    );
+    expect(error).not.toHaveBeenCalled();
+  });
+
+  it("rejects a --pr that isn't a positive integer", async () => {
+    await runCli(cwd, ["add", "--title", "fix: x", "--pr", "0"], () =>
+      expect(process.exitCode).toBe(1)
+    );
+    expect(error).toHaveBeenCalledWith("add: --pr must be a positive integer");
+  });
+});
+
+describe("relnote-pro preview", () => {
+  it("shows the next version and a PR's bullet", async () => {
+    await write(
+      "CHANGELOG.md",
+      "# Changelog\n\n## [Unreleased]\n\n### Fixes\n- clamp (#3)\n\n## [1.2.0]\n"
+    );
+    await runCli(
+      cwd,
+      ["preview", "--title", "feat: add search", "--pr", "5"],
+      () => expect(printed()).toContain("(bump: minor)")
+    );
+    expect(printed()).toContain("1 entries, patch → 1.2.0 ⇒ 1.2.1");
+    expect(printed()).toContain("### Features\n- add search (#5)\n");
+  });
+});
+
+describe("relnote-pro release", () => {
+  it("moves Unreleased into the tagged version", async () => {
+    await write(
+      "CHANGELOG.md",
+      "# Changelog\n\n## [Unreleased]\n\n### Fixes\n- clamp (#3)\n"
+    );
+    await runCli(cwd, ["release", "v1.0.0", "--date", "2024-06-01"], () =>
+      expect(printed()).toBe("### Fixes\n- clamp (#3)")
+    );
+    expect(await read("CHANGELOG.md")).toContain(
+      "## [Unreleased]\n\n## [1.0.0] – 2024-06-01\n\n### Fixes\n- clamp (#3)\n"
+    );
+  });
+
+  it("releases a tag that isn't SemVer with a warning", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    await write(
+      "CHANGELOG.md",
+      "# Changelog\n\n## [Unreleased]\n\n### Fixes\n- clamp (#3)\n\n## [0.9.0]\n"
+    );
+    await runCli(cwd, ["release", "v1.0", "--date", "2024-06-01"], () =>
+      expect(printed()).toBe("### Fixes\n- clamp (#3)")
+    );
+    expect(warn).toHaveBeenCalledWith(
+      "warning: Release tag v1.0 is not valid SemVer."
+    );
+    expect(await read("CHANGELOG.md")).toContain("## [1.0] – 2024-06-01\n");
+  });
+});
@@ -0,0 +1,315 @@
+import { parseArgs } from "node:util";
+import { loadConfig, type Config } from "./config.js";
+import {
+  addEntryToText,
+  formatDate,
+  formatEntryBullets,
+  latestReleasedVersion,
+  packageJsonVersion,
+  perPackageChangelogsEnabled,
+  releaseText,
+  releaseTagProblems,
+  resolveReleaseTarget,
+  summarizeText,
+  type UnreleasedSummary,
+} from "./changelog.js";
+import { buildPrEntry, needsPrFiles } from "./entry.js";
+import { renderTemplate } from "./template.js";
+import { effectiveBump, suggestBump } from "./semver.js";
+import {
+  assertLineBump,
+  changelogPathFor,
+  releaseLineFor,
+  versionBump,
+} from "./lines.js";
+import {
+  discoverPackages,
+  packageChangelogPath,
+  scopeForPackages,
+  type PackageMeta,
+} from "./monorepo.js";
+import {
+  listLocalChangedFiles,
+  localBranch,
+  localReader,
+  localRepoUrl,
+  readLocalTextFile,
+  writeLocalTextFile,
+} from "./local.js";
+
+const USAGE = `Usage: relnote-pro <command> [options]
+
+Commands:
+  add       Add an entry to Unreleased
+            --title <title> --pr <number> [--label <name>]... [--scope <scope>]
+            [--body <text>]  (PR description: overrides and the skip marker)
+            [--base <ref>]  (changed files for scope / excludePaths; default: HEAD)
+  release   Move Unreleased into a version section
+            <tag> [--date YYYY-MM-DD]
+            (compare links point at the "origin" remote)
+  preview   Show the Unreleased bump and next version per changelog
+            [--title <title> --pr <number>] [--label <name>]... [--json]
+
+Options:
+  --config <path>   Config file (default: .relnote-pro.yml)
+  --cwd <dir>       Repository root (default: current directory)
+  -h, --help        Show this help`;
+
+type Options = {
+  title?: string;
+  pr?: string;
+  label?: string[];
+  scope?: string;
+  body?: string;
+  base?: string;
+  date?: string;
+  json?: boolean;
+  config?: string;
+  cwd?: string;
+  help?: boolean;
+};
+
+/** Workspace packages of the local checkout (only when monorepo support is enabled). */
+async function localPackages(cwd: string, cfg: Config): Promise<PackageMeta[]> {
+  if (!cfg.monorepo?.enabled) return [];
+  return discoverPackages(localReader(cwd), cfg.monorepo.packages);
+}
+
+/** The `--pr` option as a PR number; throws unless it's a positive integer. */
+function prOption(command: string, opts: Options): number {
+  const prNumber = Number(opts.pr);
+  if (!Number.isInteger(prNumber) || prNumber <= 0)
+    throw new Error(`${command}: --pr must be a positive integer`);
+  return prNumber;
+}
+
+async function add(cwd: string, cfg: Config, opts: Options) {
+  if (!opts.title) throw new Error("add: --title is required");
+  const prNumber = prOption("add", opts);
+
+  // Same categorization, overrides and skip rules as a merged PR in the action
+  const files = needsPrFiles(cfg)
+    ? await listLocalChangedFiles(cwd, opts.base ?? "HEAD")
+    : null;
+  const built = buildPrEntry(
+    {
+      number: prNumber,
+      title: opts.title,
+      labels: opts.label ?? [],
+      body: opts.body,
+    },
+    cfg,
+    files,
+    await localPackages(cwd, cfg)
+  );
+  if (built.skipped) {
+    console.log(`#${prNumber}: no entry (${built.skipped})`);
+    return;
+  }
+  const { res, touched } = built;
+  const entry = {
+    ...built.entry,
+    scope: opts.scope ?? res.scope ?? scopeForPackages(touched),
+  };
+
+  const branch = await localBranch(cwd);
+  const path = changelogPathFor(cfg, branch);
+  const text = await readLocalTextFile(cwd, path);
+  // The line's cap applies to the bump on its current version (0.x rules included)
+  const current =
+    (text ? latestReleasedVersion(text) : undefined) ??
+    packageJsonVersion(await readLocalTextFile(cwd, "package.json")) ??
+    "0.0.0";
+  assertLineBump(
+    branch ? releaseLineFor(cfg, branch) : undefined,
+    effectiveBump(current, suggestBump(res, cfg.bump), cfg.bump),
+    `#${prNumber}`
+  );
+  await writeLocalTextFile(
+    cwd,
+    path,
+    addEntryToText(text, entry, cfg.templates.changelog)
+  );
+  console.log(`${path}: ${res.category} ← #${prNumber}`);
+
+  if (!perPackageChangelogsEnabled(cfg)) return;
+  for (const pkg of touched) {
+    const pkgPath = packageChangelogPath(pkg);
+    await writeLocalTextFile(
+      cwd,
+      pkgPath,
+      addEntryToText(
+        await readLocalTextFile(cwd, pkgPath),
+        { ...entry, scope: undefined },
+        cfg.templates.changelog
+      )
+    );
+    console.log(`${pkgPath}: ${res.category} ← #${prNumber}`);
+  }
+}
+
+async function release(
+  cwd: string,
+  cfg: Config,
+  tag: string | undefined,
+  opts: Options
+) {
+  if (!tag) throw new Error("release: a tag (e.g. v1.2.0) is required");
+
+  const packages = perPackageChangelogsEnabled(cfg)
+    ? await localPackages(cwd, cfg)
+    : [];
+  const branch = await localBranch(cwd);
+  const line = branch ? releaseLineFor(cfg, branch) : undefined;
+  const { path, version, tagPrefix } = resolveReleaseTarget(
+    cfg,
+    tag,
+    packages,
+    branch
+  );
+  const repoUrl = cfg.compareLinks ? await localRepoUrl(cwd) : null;
+
+  const text = await readLocalTextFile(cwd, path);
+  if (text === null) throw new Error(`release: ${path} not found`);
+  const latest = latestReleasedVersion(text);
+  if (latest && path === line?.changelogPath)
+    assertLineBump(line, versionBump(latest, version), `Release ${tag}`);
+  const problems = releaseTagProblems(text, tag, tagPrefix, cfg);
+  if (problems.length && cfg.tagValidation === "fail")
+    throw new Error(`${problems.join(" ")} (tagValidation: fail)`);
+  for (const p of problems) console.warn(`warning: ${p}`);
+
+  const released = releaseText(
+    text,
+    version,
+    opts.date ?? formatDate(new Date(), cfg.dates),
+    {
+      templates: cfg.templates.changelog,
+      links: repoUrl ? { repoUrl, tagPrefix } : undefined,
+      prereleases: cfg.prereleases,
+      line: line?.name,
+    }
+  );
+  if (!released) {
+    console.log(`${path}: nothing in Unreleased`);
+    return;
+  }
+
+  await writeLocalTextFile(cwd, path, released.text);
+  console.log(released.body);
+}
+
+async function preview(cwd: string, cfg: Config, opts: Options) {
+  const prNumber = opts.title ? prOption("preview", opts) : 0;
+  const path = changelogPathFor(cfg, await localBranch(cwd));
+  const summaries: UnreleasedSummary[] = [
+    summarizeText(
+      "root",
+      path,
+      await readLocalTextFile(cwd, path),
+      packageJsonVersion(await readLocalTextFile(cwd, "package.json")),
+      cfg.templates.changelog,
+      cfg.bump
+    ),
+  ];
+
+  if (perPackageChangelogsEnabled(cfg)) {
+    for (const pkg of await localPackages(cwd, cfg)) {
+      const pkgPath = packageChangelogPath(pkg);
+      summaries.push(
+        summarizeText(
+          pkg.name ?? pkg.dir,
+          pkgPath,
+          await readLocalTextFile(cwd, pkgPath),
+          packageJsonVersion(
+            await readLocalTextFile(cwd, `${pkg.dir}/package.json`)
+          ),
+          cfg.templates.changelog,
+          cfg.bump
+        )
+      );
+    }
+  }
+
+  if (opts.json) {
+    console.log(JSON.stringify(summaries, null, 2));
+  } else {
+    for (const s of summaries) {
+      console.log(
+        `${s.name} (${s.path}): ${s.entries} entries, ${s.bump} → ${s.currentVersion} ⇒ ${s.nextVersion}`
+      );
+    }
+  }
+
+  if (opts.title) {
+    const { res, entry } = buildPrEntry(
+      {
+        number: prNumber,
+        title: opts.title,
+        labels: opts.label ?? [],
+      },
+      cfg,
+      null,
+      []
+    );
+    const { bullet, categoryHeader } = cfg.templates.changelog;
+    console.log(
+      [
+        "",
+        renderTemplate(categoryHeader, { category: res.category }),
+        ...formatEntryBullets(entry, bullet),
+        `(bump: ${effectiveBump(
+          summaries[0].currentVersion,
+          suggestBump(res, cfg.bump),
+          cfg.bump
+        )})`,
+      ].join("\n")
+    );
+  }
+}
+
+async function main(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      title: { type: "string" },
+      pr: { type: "string" },
+      label: { type: "string", multiple: true },
+      scope: { type: "string" },
+      body: { type: "string" },
+      base: { type: "string" },
+      date: { type: "string" },
+      json: { type: "boolean" },
+      config: { type: "string" },
+      cwd: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  const opts = values as Options;
+  const [command, ...rest] = positionals;
+
+  if (opts.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  const cwd = opts.cwd ?? process.cwd();
+  const cfg = await loadConfig(opts.config ?? `${cwd}/.relnote-pro.yml`);
+
+  switch (command) {
+    case "add":
+      return add(cwd, cfg, opts);
+    case "release":
+      return release(cwd, cfg, rest[0], opts);
+    case "preview":
+      return preview(cwd, cfg, opts);
+    default:
+      throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+  }
+}
+
+main(process.argv.slice(2)).catch((err) => {
+  console.error(err instanceof Error ? err.message : String(err));
+  process.exitCode = 1;
+});
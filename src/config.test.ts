@@ -0,0 +1,49 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { ConfigError, loadConfig } from "./config.js";
+
+/** Load a config from YAML text written to a temporary file. */
+async function load(yaml: string) {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "relnote-"));
+  const file = path.join(dir, ".relnote-pro.yml");
+  await fs.writeFile(file, yaml, "utf8");
+  try {
+    return await loadConfig(file);
+  } finally {
+    await fs.rm(dir, { recursive: true });
+  }
+}
+
+describe("loadConfig", () => {
+  it("applies the defaults for a missing file", async () => {
+    const cfg = await loadConfig("/nonexistent/.relnote-pro.yml");
+    expect(cfg.changelogPath).toBe("CHANGELOG.md");
+    expect(cfg.dates).toEqual({ timeZone: "UTC", format: "YYYY-MM-DD" });
+  });
+
+  it("reports schema problems with their line", async () => {
+    const err = await load("tagValidation: loud\n").catch((e) => e);
+    expect(err).toBeInstanceOf(ConfigError);
+    expect(err.issues).toMatchObject([{ path: "tagValidation", line: 1 }]);
+  });
+
+  it("rejects a bullet without {{breaking}} when breakingHeader is off", async () => {
+    const yaml = `templates:\n  changelog:\n    bullet: "{{subject}} (#{{pr}})"\n    breakingHeader: ""\n`;
+    const err = await load(yaml).catch((e) => e);
+    expect(err).toBeInstanceOf(ConfigError);
+    expect(err.issues).toMatchObject([
+      { path: "templates.changelog.bullet", line: 3 },
+    ]);
+  });
+
+  it("accepts a bullet without {{breaking}} next to the breaking section", async () => {
+    const cfg = await load(
+      `templates:\n  changelog:\n    bullet: "{{subject}} (#{{pr}})"\n`
+    );
+    expect(cfg.templates.changelog.breakingHeader).toBe(
+      "### ⚠ Breaking Changes"
+    );
+  });
+});
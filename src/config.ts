@@ -1,22 +1,158 @@
 import fs from "node:fs/promises";
 import yaml from "js-yaml";
+import schema from "../relnote-pro.schema.json";
+import { locateYamlPath, validateSchema, type JsonSchema } from "./schema.js";
+import type { BumpRules } from "./semver.js";
+
+/** Line templates; see src/template.ts for the placeholder syntax. */
+export type ChangelogTemplates = {
+  bullet: string; // without the leading "- "
+  categoryHeader: string;
+  versionHeader: string;
+  breakingHeader: string; // section collecting breaking entries first; "" turns it off
+};
+
+export type ReleaseTemplates = { bullet?: string; categoryHeader?: string };
+
+/** How dates are written; see `formatDate`. */
+export type DateFormat = {
+  timeZone: string; // IANA name, e.g. "Europe/Berlin"
+  format: string; // YYYY, MM, M, MMM, MMMM, DD, D tokens
+};
+
+export const DEFAULT_TEMPLATES: ChangelogTemplates = {
+  bullet: "{{breaking}}{{#scope}}[{{scope}}] {{/scope}}{{subject}} (#{{pr}})",
+  categoryHeader: "### {{category}}",
+  versionHeader: "## [{{version}}]{{#date}} – {{date}}{{/date}}",
+  breakingHeader: "### ⚠ Breaking Changes",
+};
 
 export type Config = {
   changelogPath: string;
   categories: Record<string, string[]>; // e.g., "Features" -> ["feature", "feat"]
   breakingLabels: string[]; // e.g., ["breaking", "breaking-change"]
-  monorepo: { enabled: boolean; packages?: string[]; detect?: boolean };
+  bump: BumpRules;
+  skipLabels: string[]; // PRs with any of these labels get no entry
+  skipMarker: string; // same, via a line (or <!-- marker -->) in the PR body
+  monorepo: {
+    enabled: boolean;
+    packages?: string[];
+    detect?: boolean;
+    perPackageChangelogs?: boolean; // also write <package dir>/CHANGELOG.md
+  };
   excludePaths?: string[];
   language?: "en"; // English-only
+  failOnMissing?: boolean; // fail when the config or changelog is absent
+  writeAttempts: number; // tries per changelog write when concurrent runs conflict
+  tagPrefix?: string; // root release tags, e.g. "v"; default: detected from existing tags
+  tagValidation: "off" | "warn" | "annotate" | "fail"; // published tags that don't fit Unreleased
+  dates: DateFormat; // release and merge dates written to the changelog
+  compareLinks: boolean; // keep "[1.2.0]: …/compare/v1.1.0...v1.2.0" references up to date
+  releaseLines: ReleaseLine[];
+  prereleases: {
+    mode: "section" | "release-only"; // "2.0.0-rc.1" gets its own section, or only a GitHub Release body
+    onStable: "remove" | "keep"; // prerelease sections once their entries are folded into 2.0.0
+  };
+  contributors: {
+    list?: boolean; // "Contributors" section in release bodies
+    newContributors?: boolean; // "New contributors" (first merged PR in the repo)
+    exclude: string[]; // logins never credited, e.g. bots
+  };
+  templates: {
+    changelog: ChangelogTemplates;
+    release: ReleaseTemplates; // GitHub Release bodies; unset parts reuse the changelog lines
+  };
+  check: {
+    types?: string[]; // allowed Conventional Commit types; default: any type mapped to a category
+    requireScope?: boolean; // monorepo: title scope must name a touched package
+    maxSubjectLength?: number;
+    checkRun?: boolean; // also report as a "RelNote Pro / PR policy" check run
+  };
+};
+
+/** A maintenance branch (e.g. release/1.x) with its own changelog and version line. */
+export type ReleaseLine = {
+  name: string; // e.g. "1.x"; {{line}} in the version header template
+  branch: string; // glob, e.g. "release/1.x"
+  changelogPath: string; // default: CHANGELOG-<name>.md
+  maxBump: "minor" | "patch"; // larger bumps are rejected
+  forwardPort: boolean; // also write the line's entries to the default branch's changelog
 };
 
-export async function loadConfig(path: string): Promise<Config> {
+export type ConfigIssue = { path: string; message: string; line?: number };
+
+/** Invalid `.relnote-pro.yml`; `issues` carry key paths and 1-based lines. */
+export class ConfigError extends Error {
+  constructor(readonly file: string, readonly issues: ConfigIssue[]) {
+    super(
+      `Invalid config ${file}:\n` +
+        issues
+          .map(
+            (i) =>
+              `  ${file}${i.line ? `:${i.line}` : ""}: ${
+                i.path ? `${i.path}: ` : ""
+              }${i.message}`
+          )
+          .join("\n")
+    );
+    this.name = "ConfigError";
+  }
+}
+
+/**
+ * Load and validate the config. A missing file yields the defaults unless
+ * `failOnMissing` is set; YAML syntax errors and schema violations throw a
+ * ConfigError listing every problem.
+ */
+export async function loadConfig(
+  path: string,
+  opts: { failOnMissing?: boolean } = {}
+): Promise<Config> {
+  let text: string;
   try {
-    const raw = yaml.load(await fs.readFile(path, "utf8")) as Partial<Config>;
-    return applyDefaults(raw);
-  } catch {
-    return applyDefaults({});
+    text = await fs.readFile(path, "utf8");
+  } catch (e: any) {
+    if (e?.code !== "ENOENT") throw e;
+    if (opts.failOnMissing)
+      throw new Error(`Config file ${path} not found (fail-on-missing)`);
+    return applyDefaults({ failOnMissing: opts.failOnMissing });
   }
+
+  let raw: unknown;
+  try {
+    raw = yaml.load(text) ?? {};
+  } catch (e: any) {
+    throw new ConfigError(path, [
+      {
+        path: "",
+        message: e?.reason ?? String(e),
+        line: typeof e?.mark?.line === "number" ? e.mark.line + 1 : undefined,
+      },
+    ]);
+  }
+
+  const issues = validateSchema(raw, schema as JsonSchema).map((i) => ({
+    path: i.path.join("."),
+    message: i.message,
+    line: locateYamlPath(text, i.path),
+  }));
+  if (issues.length) throw new ConfigError(path, issues);
+
+  const cfg = applyDefaults(raw as Partial<Config>);
+  const { bullet, breakingHeader } = cfg.templates.changelog;
+  if (!bullet.includes("{{breaking}}") && !breakingHeader) {
+    const at = ["templates", "changelog", "bullet"];
+    throw new ConfigError(path, [
+      {
+        path: at.join("."),
+        message:
+          "needs {{breaking}} while breakingHeader is off; breaking changes would not be recorded",
+        line: locateYamlPath(text, at),
+      },
+    ]);
+  }
+  if (opts.failOnMissing) cfg.failOnMissing = true;
+  return cfg;
 }
 
 function applyDefaults(raw: Partial<Config>): Config {
@@ -36,8 +172,35 @@ function applyDefaults(raw: Partial<Config>): Config {
       "breaking-change",
       "major",
     ],
+    bump: { categories: {}, initialDevelopment: false, ...raw.bump },
+    skipLabels: raw.skipLabels ?? ["skip-changelog"],
+    skipMarker: raw.skipMarker ?? "skip-changelog",
     monorepo: raw.monorepo ?? { enabled: false, detect: true },
     excludePaths: raw.excludePaths ?? [],
     language: "en",
+    failOnMissing: raw.failOnMissing ?? false,
+    writeAttempts: raw.writeAttempts ?? 5,
+    tagPrefix: raw.tagPrefix,
+    tagValidation: raw.tagValidation ?? "warn",
+    dates: { timeZone: "UTC", format: "YYYY-MM-DD", ...raw.dates },
+    compareLinks: raw.compareLinks ?? true,
+    releaseLines: (raw.releaseLines ?? []).map((line) => ({
+      ...line,
+      changelogPath: line.changelogPath ?? `CHANGELOG-${line.name}.md`,
+      maxBump: line.maxBump ?? "minor",
+      forwardPort: line.forwardPort ?? false,
+    })),
+    prereleases: { mode: "section", onStable: "remove", ...raw.prereleases },
+    contributors: {
+      list: false,
+      newContributors: false,
+      exclude: ["dependabot", "renovate", "github-actions"],
+      ...raw.contributors,
+    },
+    templates: {
+      changelog: { ...DEFAULT_TEMPLATES, ...raw.templates?.changelog },
+      release: raw.templates?.release ?? {},
+    },
+    check: raw.check ?? {},
   };
 }
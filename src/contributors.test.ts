@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { loadConfig } from "./config.js";
+import {
+  findContributors,
+  isExcludedAuthor,
+  renderContributors,
+  type CreditedPr,
+} from "./contributors.js";
+
+/** Search API answering whether a login has a PR merged before the query date. */
+function fakeOctokit(veterans: string[]) {
+  const queries: string[] = [];
+  const octo = {
+    rest: {
+      search: {
+        issuesAndPullRequests: async ({ q }: { q: string }) => {
+          queries.push(q);
+          const login = /author:(\S+)/.exec(q)![1];
+          return { data: { total_count: veterans.includes(login) ? 3 : 0 } };
+        },
+      },
+    },
+  };
+  return { octo: octo as any, queries };
+}
+
+const prs: CreditedPr[] = [
+  { number: 12, author: "bob", mergedAt: "2024-05-03T00:00:00Z" },
+  { number: 10, author: "alice", mergedAt: "2024-05-01T00:00:00Z" },
+  { number: 11, author: "dependabot[bot]", mergedAt: "2024-05-02T00:00:00Z" },
+  { number: 13, author: "alice", mergedAt: "2024-05-04T00:00:00Z" },
+  { number: 14, author: "Renovate[bot]", mergedAt: "2024-05-05T00:00:00Z" },
+  { number: 15, mergedAt: "2024-05-06T00:00:00Z" }, // deleted account
+];
+
+describe("isExcludedAuthor", () => {
+  it("matches logins case-insensitively, with or without [bot]", () => {
+    const exclude = ["dependabot", "Renovate[bot]"];
+    expect(isExcludedAuthor("dependabot[bot]", exclude)).toBe(true);
+    expect(isExcludedAuthor("renovate", exclude)).toBe(true);
+    expect(isExcludedAuthor("DEPENDABOT", exclude)).toBe(true);
+    expect(isExcludedAuthor("dependabot-fan", exclude)).toBe(false);
+  });
+});
+
+describe("findContributors", () => {
+  it("groups PRs by author in merge order and drops bots and excluded logins", async () => {
+    const cfg = await loadConfig("/nonexistent.yml");
+    cfg.contributors = {
+      list: true,
+      exclude: [...cfg.contributors.exclude, "bob"],
+    };
+    const { octo, queries } = fakeOctokit([]);
+
+    expect(await findContributors(octo, "o", "r", prs, cfg)).toEqual([
+      { login: "alice", prs: [10, 13], firstTime: false },
+    ]);
+    expect(queries).toEqual([]); // no newContributors, no searches
+  });
+
+  it("flags authors without an earlier merged PR as new", async () => {
+    const cfg = await loadConfig("/nonexistent.yml");
+    cfg.contributors.newContributors = true;
+    const { octo, queries } = fakeOctokit(["alice"]);
+
+    expect(await findContributors(octo, "o", "r", prs, cfg)).toEqual([
+      { login: "alice", prs: [10, 13], firstTime: false },
+      { login: "bob", prs: [12], firstTime: true },
+    ]);
+    expect(queries).toEqual([
+      "repo:o/r is:pr is:merged author:alice merged:<2024-05-01T00:00:00Z",
+      "repo:o/r is:pr is:merged author:bob merged:<2024-05-03T00:00:00Z",
+    ]);
+  });
+});
+
+describe("renderContributors", () => {
+  const contributors = [
+    { login: "alice", prs: [10, 13], firstTime: false },
+    { login: "bob", prs: [12], firstTime: true },
+  ];
+
+  it("renders the enabled sections", async () => {
+    const cfg = await loadConfig("/nonexistent.yml");
+    cfg.contributors = { list: true, newContributors: true, exclude: [] };
+    expect(renderContributors(contributors, cfg)).toBe(
+      "### Contributors\n\n@alice, @bob\n\n### New contributors\n\n- @bob made their first contribution in #12"
+    );
+    cfg.contributors.list = false;
+    expect(renderContributors(contributors, cfg)).toBe(
+      "### New contributors\n\n- @bob made their first contribution in #12"
+    );
+  });
+
+  it("renders nothing without contributors or newcomers", async () => {
+    const cfg = await loadConfig("/nonexistent.yml");
+    cfg.contributors = { list: true, newContributors: true, exclude: [] };
+    expect(renderContributors([], cfg)).toBe("");
+    cfg.contributors.list = false;
+    expect(renderContributors([contributors[0]], cfg)).toBe("");
+  });
+});
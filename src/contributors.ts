@@ -0,0 +1,119 @@
+import * as github from "@actions/github";
+type Octokit = ReturnType<typeof github.getOctokit>;
+import type { Config } from "./config.js";
+
+/** The parts of a merged PR that credit its author. */
+export type CreditedPr = {
+  number: number;
+  author?: string;
+  mergedAt?: string | null;
+};
+
+export type Contributor = {
+  login: string;
+  prs: number[]; // oldest first
+  firstTime: boolean; // no merged PR in the repo before this release's first one
+};
+
+const normLogin = (login: string) =>
+  login
+    .trim()
+    .toLowerCase()
+    .replace(/\[bot\]$/, "");
+
+/** Whether a login is excluded from credits ("renovate" also matches "renovate[bot]"). */
+export function isExcludedAuthor(login: string, exclude: string[]): boolean {
+  return exclude.some((e) => normLogin(e) === normLogin(login));
+}
+
+/** Whether release bodies get any contributor section. */
+export function contributorsEnabled(cfg: Config): boolean {
+  return !!cfg.contributors?.list || !!cfg.contributors?.newContributors;
+}
+
+/** Whether `login` had a PR merged in the repo before `before` (ISO date). */
+async function hasEarlierMergedPr(
+  octo: Octokit,
+  owner: string,
+  repo: string,
+  login: string,
+  before: string
+): Promise<boolean> {
+  const { data } = await octo.rest.search.issuesAndPullRequests({
+    q: `repo:${owner}/${repo} is:pr is:merged author:${login} merged:<${before}`,
+    per_page: 1,
+  });
+  return data.total_count > 0;
+}
+
+/**
+ * Group PRs by author (excluded logins dropped), in order of first
+ * appearance. First-time detection costs one search call per author and
+ * only runs when `newContributors` is on.
+ */
+export async function findContributors(
+  octo: Octokit,
+  owner: string,
+  repo: string,
+  prs: CreditedPr[],
+  cfg: Config
+): Promise<Contributor[]> {
+  const exclude = cfg.contributors?.exclude ?? [];
+  const sorted = [...prs].sort((a, b) =>
+    (a.mergedAt ?? "").localeCompare(b.mergedAt ?? "")
+  );
+
+  const byLogin = new Map<string, Contributor & { since?: string | null }>();
+  for (const pr of sorted) {
+    if (!pr.author || isExcludedAuthor(pr.author, exclude)) continue;
+    const known = byLogin.get(pr.author);
+    if (known) known.prs.push(pr.number);
+    else
+      byLogin.set(pr.author, {
+        login: pr.author,
+        prs: [pr.number],
+        firstTime: false,
+        since: pr.mergedAt,
+      });
+  }
+
+  const out: Contributor[] = [];
+  for (const { since, ...c } of byLogin.values()) {
+    if (cfg.contributors?.newContributors && since) {
+      const earlier = await hasEarlierMergedPr(
+        octo,
+        owner,
+        repo,
+        c.login,
+        since
+      );
+      c.firstTime = !earlier;
+    }
+    out.push(c);
+  }
+  return out;
+}
+
+/** "Contributors" / "New contributors" sections for a release body ("" when empty). */
+export function renderContributors(
+  contributors: Contributor[],
+  cfg: Config
+): string {
+  const blocks: string[] = [];
+  if (cfg.contributors?.list && contributors.length) {
+    blocks.push(
+      `### Contributors\n\n${contributors.map((c) => `@${c.login}`).join(", ")}`
+    );
+  }
+  const newcomers = contributors.filter((c) => c.firstTime);
+  if (cfg.contributors?.newContributors && newcomers.length) {
+    blocks.push(
+      `### New contributors\n\n${newcomers
+        .map(
+          (c) => `- @${c.login} made their first contribution in #${c.prs[0]}`
+        )
+        .join("\n")}`
+    );
+  }
+  return blocks.join("\n\n");
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { loadConfig } from "./config.js";
+import { buildPrEntry } from "./entry.js";
+
+const pr = { number: 5, title: "feat: add search", labels: [] };
+const packages = [{ dir: "packages/api" }, { dir: "packages/web" }];
+
+describe("buildPrEntry with excludePaths", () => {
+  it("skips a PR whose changed files are all excluded", async () => {
+    const cfg = await loadConfig("/nonexistent.yml");
+    cfg.excludePaths = ["docs/**", "**/*.md"];
+    expect(
+      buildPrEntry(pr, cfg, ["docs/a.md", "packages/api/README.md"], []).skipped
+    ).toBe("every changed file matches `excludePaths`");
+    expect(
+      buildPrEntry(pr, cfg, ["docs/a.md", "src/search.ts"], []).skipped
+    ).toBeUndefined();
+    // Nothing fetched (or nothing changed) is not "all excluded"
+    expect(buildPrEntry(pr, cfg, [], []).skipped).toBeUndefined();
+    expect(buildPrEntry(pr, cfg, null, []).skipped).toBeUndefined();
+  });
+
+  it("infers the scope from the files left after exclusion", async () => {
+    const cfg = await loadConfig("/nonexistent.yml");
+    cfg.monorepo.enabled = true;
+    cfg.excludePaths = ["packages/web/**"];
+    const built = buildPrEntry(
+      pr,
+      cfg,
+      ["packages/api/src/search.ts", "packages/web/CHANGELOG.md"],
+      packages
+    );
+    expect(built.touched).toEqual([packages[0]]);
+    expect(built.entry.scope).toBe("api");
+  });
+});
@@ -0,0 +1,211 @@
+import type { Config } from "./config.js";
+import {
+  categorize,
+  parseConventionalCommit,
+  resolveCategory,
+  type CategorizeResult,
+} from "./categorize.js";
+import { formatDate, type ChangelogEntry } from "./changelog.js";
+import { parsePrBody, type BodyOverride } from "./prbody.js";
+import {
+  inferPackagesFromPaths,
+  scopeForPackages,
+  withoutExcluded,
+  type PackageMeta,
+} from "./monorepo.js";
+
+/** The parts of a pull request that decide its changelog entry. */
+export type PrInfo = {
+  number: number;
+  title: string;
+  labels: string[];
+  body?: string | null;
+  url?: string;
+  author?: string;
+  sha?: string | null; // merge commit
+  mergedAt?: string | null;
+};
+
+/** The parts of a directly pushed commit that decide its changelog entry. */
+export type CommitInfo = {
+  sha: string;
+  message: string; // full message: header, body and footers
+  url?: string;
+  author?: string; // GitHub login, when the commit email maps to one
+  date?: string | null;
+};
+
+export type PrEntry = {
+  res: CategorizeResult;
+  entry: ChangelogEntry;
+  labels: string[];
+  touched: PackageMeta[];
+  inferredScope?: string;
+  override: BodyOverride;
+  skipped?: string; // why the PR gets no changelog entry
+};
+
+/** PrInfo from a REST/webhook pull request payload. */
+export function prInfo(pr: { [key: string]: any }): PrInfo {
+  return {
+    number: pr.number,
+    title: pr.title,
+    labels: prLabels(pr),
+    body: pr.body,
+    url: pr.html_url,
+    author: pr.user?.login,
+    sha: pr.merge_commit_sha,
+    mergedAt: pr.merged_at,
+  };
+}
+
+/** CommitInfo from a commit of a push event payload. */
+export function commitInfo(c: { [key: string]: any }): CommitInfo {
+  return {
+    sha: c.id,
+    message: c.message,
+    url: c.url,
+    author: c.author?.username,
+    date: c.timestamp,
+  };
+}
+
+/** Label names from a REST/webhook PR payload (objects or plain strings). */
+export function prLabels(pr: {
+  labels?: unknown[];
+  [key: string]: any;
+}): string[] {
+  return (pr.labels ?? []).map((l: any) =>
+    typeof l === "string" ? l : l.name
+  );
+}
+
+/** Whether building an entry needs the PR's changed files. */
+export function needsPrFiles(cfg: Config): boolean {
+  return !!cfg.monorepo?.enabled || !!cfg.excludePaths?.length;
+}
+
+/**
+ * Categorize a PR, apply PR-body overrides and skip rules, and infer its
+ * monorepo scope from the changed files (null when they weren't fetched).
+ */
+export function buildPrEntry(
+  pr: PrInfo,
+  cfg: Config,
+  files: string[] | null,
+  packages: PackageMeta[]
+): PrEntry {
+  return buildEntry(
+    {
+      message: pr.title,
+      labels: pr.labels,
+      body: pr.body,
+      where: "the PR description",
+      entry: {
+        prNumber: pr.number,
+        title: pr.title,
+        url: pr.url,
+        author: pr.author,
+        sha: pr.sha ?? undefined,
+        date: pr.mergedAt
+          ? formatDate(new Date(pr.mergedAt), cfg.dates)
+          : undefined,
+      },
+    },
+    cfg,
+    files,
+    packages
+  );
+}
+
+/**
+ * Same for a direct commit: categorized by its full Conventional Commit
+ * message; overrides, the skip marker and the "BREAKING CHANGE:" footer
+ * (the breaking note) are read from the message.
+ */
+export function buildCommitEntry(
+  commit: CommitInfo,
+  cfg: Config,
+  files: string[] | null,
+  packages: PackageMeta[]
+): PrEntry {
+  const { title } = parseConventionalCommit(commit.message);
+  return buildEntry(
+    {
+      message: commit.message,
+      labels: [],
+      body: commit.message,
+      where: "the commit message",
+      entry: {
+        title,
+        url: commit.url,
+        author: commit.author,
+        sha: commit.sha,
+        date: commit.date
+          ? formatDate(new Date(commit.date), cfg.dates)
+          : undefined,
+      },
+    },
+    cfg,
+    files,
+    packages
+  );
+}
+
+function buildEntry(
+  src: {
+    message: string; // what gets categorized: PR title or commit message
+    labels: string[];
+    body?: string | null; // where overrides and the skip marker are read from
+    where: string;
+    entry: Omit<ChangelogEntry, "category">;
+  },
+  cfg: Config,
+  files: string[] | null,
+  packages: PackageMeta[]
+): PrEntry {
+  // Changed files minus excludePaths drive both entry suppression and scope inference
+  const changed = withoutExcluded(files ?? [], cfg.excludePaths ?? []);
+  const allExcluded = !!files?.length && !changed.length;
+
+  // Try to infer scope from changed files if monorepo is enabled
+  let inferredScope: string | undefined = undefined;
+  let touched: PackageMeta[] = [];
+  if (cfg.monorepo?.enabled && changed.length) {
+    touched = inferPackagesFromPaths(changed, packages);
+    inferredScope = scopeForPackages(touched);
+  }
+
+  const labels = src.labels;
+  const res = categorize(src.message, labels, cfg);
+
+  // Author overrides from the PR body ("## Changelog" / <!-- relnote --> block)
+  const override = parsePrBody(src.body, cfg);
+  const overrideCategory = override.category
+    ? resolveCategory(override.category, cfg)
+    : undefined;
+  if (overrideCategory) res.category = overrideCategory;
+  if (override.breaking) res.breaking = true;
+
+  const skipLabels = (cfg.skipLabels ?? []).map((l) => l.toLowerCase());
+  const skipLabel = labels.find((l) => skipLabels.includes(l.toLowerCase()));
+  const skipped = skipLabel
+    ? `the PR has the \`${skipLabel}\` label`
+    : override.skip
+    ? `${src.where} contains \`${cfg.skipMarker}\``
+    : allExcluded
+    ? "every changed file matches `excludePaths`"
+    : undefined;
+
+  const entry: ChangelogEntry = {
+    ...src.entry,
+    category: res.category,
+    scope: res.scope ?? inferredScope, // prefer CC scope; fall back to monorepo inference
+    breaking: res.breaking,
+    bullets: override.bullets,
+    breakingNote: override.breaking,
+    labels,
+  };
+
+  return { res, entry, labels, touched, inferredScope, override, skipped };
+}
@@ -1,6 +1,9 @@
 import * as github from "@actions/github";
+import semver from "semver";
 type Octokit = ReturnType<typeof github.getOctokit>;
 
+export type VersionTag = { name: string; version: string; sha: string };
+
 /** Get PR number from context if present. */
 export function getPrNumberFromContext(): number | undefined {
   const n = (github.context.payload as any)?.pull_request?.number;
@@ -56,6 +59,32 @@ export async function listPrFiles(
   return files;
 }
 
+/** Changed file paths of a single commit. */
+export async function listCommitFiles(
+  octo: Octokit,
+  owner: string,
+  repo: string,
+  sha: string
+): Promise<string[]> {
+  const { data } = await octo.rest.repos.getCommit({ owner, repo, ref: sha });
+  return (data.files ?? []).map((f) => f.filename);
+}
+
+/** Number of the merged PR that brought a commit in, if any. */
+export async function mergedPrForCommit(
+  octo: Octokit,
+  owner: string,
+  repo: string,
+  sha: string
+): Promise<number | undefined> {
+  const { data } = await octo.rest.repos.listPullRequestsAssociatedWithCommit({
+    owner,
+    repo,
+    commit_sha: sha,
+  });
+  return data.find((pr) => pr.merged_at)?.number;
+}
+
 /** Read a UTF-8 text file from the repo at a given ref/branch. */
 export async function readTextFileFromRepo(
   octo: Octokit,
@@ -109,3 +138,153 @@ export async function listRepoTreePaths(
   }
   return paths;
 }
+
+/** Read-only access to a repo at a ref, in the shape used by workspace detection. */
+export function githubReader(
+  octo: Octokit,
+  owner: string,
+  repo: string,
+  ref: string
+) {
+  return {
+    readText: (path: string) =>
+      readTextFileFromRepo(octo, owner, repo, path, ref),
+    listPaths: () => listRepoTreePaths(octo, owner, repo, ref),
+  };
+}
+
+/** Create or update the single issue/PR comment that contains `marker`. */
+export async function upsertIssueComment(
+  octo: Octokit,
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  marker: string,
+  body: string
+): Promise<void> {
+  const comments = await octo.paginate(octo.rest.issues.listComments, {
+    owner,
+    repo,
+    issue_number: issueNumber,
+    per_page: 100,
+  });
+  const existing = comments.find((c) => c.body?.includes(marker));
+
+  if (existing) {
+    if (existing.body === body) return;
+    await octo.rest.issues.updateComment({
+      owner,
+      repo,
+      comment_id: existing.id,
+      body,
+    });
+    return;
+  }
+
+  await octo.rest.issues.createComment({
+    owner,
+    repo,
+    issue_number: issueNumber,
+    body,
+  });
+}
+
+/**
+ * SemVer tags of the repo (package-scoped tags are ignored), oldest first.
+ * With `prefix`, only tags spelled exactly `<prefix><version>` count.
+ */
+export async function listVersionTags(
+  octo: Octokit,
+  owner: string,
+  repo: string,
+  prefix?: string
+): Promise<VersionTag[]> {
+  const tags = await octo.paginate(octo.rest.repos.listTags, {
+    owner,
+    repo,
+    per_page: 100,
+  });
+
+  const seen = new Set<string>();
+  const out: VersionTag[] = [];
+  for (const t of tags) {
+    const version =
+      prefix === undefined
+        ? semver.clean(t.name)
+        : t.name.startsWith(prefix)
+        ? semver.valid(t.name.slice(prefix.length))
+        : null;
+    if (!version || seen.has(version)) continue;
+    seen.add(version);
+    out.push({ name: t.name, version, sha: t.commit.sha });
+  }
+  return out.sort((a, b) => semver.compare(a.version, b.version));
+}
+
+/** Prefix of a version tag ("v1.2.0" → "v", "1.2.0" → ""); "v" when there is none. */
+export function tagPrefixOf(tag: VersionTag | undefined): string {
+  if (!tag || !tag.name.endsWith(tag.version)) return "v";
+  return tag.name.slice(0, -tag.version.length);
+}
+
+/** Commit UTF-8 files on top of `parentSha` via the git data API; returns the new commit SHA. */
+export async function commitFiles(
+  octo: Octokit,
+  owner: string,
+  repo: string,
+  parentSha: string,
+  files: Record<string, string>,
+  message: string
+): Promise<string> {
+  const { data: parent } = await octo.rest.git.getCommit({
+    owner,
+    repo,
+    commit_sha: parentSha,
+  });
+  const { data: tree } = await octo.rest.git.createTree({
+    owner,
+    repo,
+    base_tree: parent.tree.sha,
+    tree: Object.entries(files).map(([path, content]) => ({
+      path,
+      mode: "100644" as const,
+      type: "blob" as const,
+      content,
+    })),
+  });
+  const { data: commit } = await octo.rest.git.createCommit({
+    owner,
+    repo,
+    message,
+    tree: tree.sha,
+    parents: [parentSha],
+  });
+  return commit.sha;
+}
+
+/** Point a branch at `sha`, creating it or force-moving it. */
+export async function forceBranch(
+  octo: Octokit,
+  owner: string,
+  repo: string,
+  branch: string,
+  sha: string
+): Promise<void> {
+  try {
+    await octo.rest.git.updateRef({
+      owner,
+      repo,
+      ref: `heads/${branch}`,
+      sha,
+      force: true,
+    });
+  } catch (err: any) {
+    if (err?.status !== 404 && err?.status !== 422) throw err;
+    await octo.rest.git.createRef({
+      owner,
+      repo,
+      ref: `refs/heads/${branch}`,
+      sha,
+    });
+  }
+}
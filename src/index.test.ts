@@ -0,0 +1,171 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// index.ts runs the action on import: inputs, context and the release PR
+// helpers are stubbed so each test drives a single event through `run()`.
+const state = vi.hoisted(() => ({
+  inputs: {} as Record<string, string>,
+  context: {} as Record<string, any>,
+  outputs: {} as Record<string, string>,
+}));
+
+vi.mock("@actions/core", () => ({
+  getInput: (name: string) => state.inputs[name] ?? "",
+  getBooleanInput: (name: string) => state.inputs[name] === "true",
+  setOutput: (name: string, value: string) => {
+    state.outputs[name] = value;
+  },
+  info: vi.fn(),
+  warning: vi.fn(),
+  error: vi.fn(),
+  setFailed: vi.fn(),
+}));
+
+vi.mock("@actions/github", () => ({
+  getOctokit: () => ({}),
+  get context() {
+    return state.context;
+  },
+}));
+
+vi.mock("./releasepr.js", () => ({
+  DEFAULT_RELEASE_BRANCH: "relnote/release",
+  updateReleasePr: vi.fn(async () => ({
+    number: 42,
+    url: "https://github.com/o/r/pull/42",
+    version: "1.3.0",
+  })),
+  publishReleasePr: vi.fn(async () => [
+    {
+      version: "1.3.0",
+      tag: "v1.3.0",
+      bump: "minor",
+      url: "https://github.com/o/r/releases/tag/v1.3.0",
+      draft: false,
+    },
+  ]),
+}));
+
+const core = await import("@actions/core");
+const { publishReleasePr, updateReleasePr } = await import("./releasepr.js");
+
+/** Import index.ts (which calls `run()`) and wait for `done` to hold. */
+async function runAction(done: () => void) {
+  vi.resetModules();
+  await import("./index.js");
+  await vi.waitFor(done);
+  expect(core.setFailed).not.toHaveBeenCalled();
+}
+
+const releasePrMerged = {
+  eventName: "pull_request",
+  ref: "refs/pull/42/merge",
+  repo: { owner: "o", repo: "r" },
+  payload: {
+    action: "closed",
+    pull_request: {
+      number: 42,
+      merged: true,
+      head: { ref: "relnote/release" },
+      base: { ref: "main" },
+    },
+  },
+};
+
+describe("mode: release-pr", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.GITHUB_TOKEN = "token";
+    state.inputs = { mode: "release-pr", "config-path": "/nonexistent.yml" };
+    state.outputs = {};
+  });
+
+  it("opens or updates the release PR on push", async () => {
+    state.context = {
+      eventName: "push",
+      ref: "refs/heads/main",
+      repo: { owner: "o", repo: "r" },
+      payload: {},
+    };
+    await runAction(() => expect(state.outputs["release-pr"]).toBe("42"));
+
+    expect(updateReleasePr).toHaveBeenCalledWith(
+      expect.anything(),
+      state.context,
+      expect.objectContaining({ changelogPath: "CHANGELOG.md" }),
+      "relnote/release"
+    );
+    expect(state.outputs["next-version"]).toBe("1.3.0");
+    expect(publishReleasePr).not.toHaveBeenCalled();
+  });
+
+  it("publishes the release when the release PR is merged", async () => {
+    state.context = releasePrMerged;
+    await runAction(() => expect(state.outputs["release-tag"]).toBe("v1.3.0"));
+
+    expect(publishReleasePr).toHaveBeenCalledWith(
+      expect.anything(),
+      state.context,
+      expect.anything(),
+      { draft: false }
+    );
+    expect(state.outputs.bump).toBe("minor");
+    expect(updateReleasePr).not.toHaveBeenCalled();
+  });
+
+  it("ignores pushes to the release branch itself", async () => {
+    state.context = {
+      eventName: "push",
+      ref: "refs/heads/relnote/release",
+      repo: { owner: "o", repo: "r" },
+      payload: {},
+    };
+    await runAction(() =>
+      expect(core.info).toHaveBeenCalledWith(
+        "relnote/release is the release PR branch; nothing to do"
+      )
+    );
+    expect(updateReleasePr).not.toHaveBeenCalled();
+  });
+
+  it("leaves the merged release PR alone in auto mode", async () => {
+    state.inputs.mode = "auto";
+    state.context = releasePrMerged;
+    await runAction(() =>
+      expect(core.info).toHaveBeenCalledWith(
+        "relnote/release is the release PR branch; nothing to do"
+      )
+    );
+    expect(publishReleasePr).not.toHaveBeenCalled();
+  });
+});
+
+describe("mode: auto", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.GITHUB_TOKEN = "token";
+    state.inputs = { mode: "auto", "config-path": "/nonexistent.yml" };
+    state.outputs = {};
+  });
+
+  it("posts no preview on a closed PR", async () => {
+    state.context = {
+      eventName: "pull_request",
+      ref: "refs/pull/7/merge",
+      repo: { owner: "o", repo: "r" },
+      payload: {
+        action: "labeled",
+        pull_request: {
+          number: 7,
+          state: "closed",
+          merged: false,
+          head: { ref: "feature" },
+          base: { ref: "main" },
+        },
+      },
+    };
+    await runAction(() =>
+      expect(core.info).toHaveBeenCalledWith("PR #7 is closed; no preview")
+    );
+    expect(state.outputs.bump).toBeUndefined();
+  });
+});
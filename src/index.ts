@@ -1,78 +1,472 @@
+import fs from "node:fs/promises";
+import path from "node:path";
 import * as core from "@actions/core";
 import * as github from "@actions/github";
-import { loadConfig } from "./config.js";
+import { loadConfig, ConfigError } from "./config.js";
 import {
   ensureChangelog,
   addUnreleasedEntry,
+  removeUnreleasedEntry,
   releaseUnreleased,
+  summarizeUnreleased,
+  entryBump,
+  formatEntryBullets,
+  entryNotesData,
+  type NotesData,
+  type UnreleasedSummary,
 } from "./changelog.js";
-import { categorize, type CategorizeResult } from "./categorize.js";
-import { suggestBump } from "./semver.js";
-import { detectScopeForCurrentPr } from "./monorepo.js";
+import {
+  githubReader,
+  listCommitFiles,
+  listPrFiles,
+  mergedPrForCommit,
+  upsertIssueComment,
+} from "./github.js";
+import { PREVIEW_MARKER, renderPreview } from "./preview.js";
+import { checkPullRequest } from "./check.js";
+import { backfillChangelog } from "./backfill.js";
+import { createReleaseFromUnreleased, type CreatedRelease } from "./release.js";
+import {
+  DEFAULT_RELEASE_BRANCH,
+  publishReleasePr,
+  updateReleasePr,
+} from "./releasepr.js";
+import type { Config } from "./config.js";
+import { resolveCategory } from "./categorize.js";
+import {
+  buildCommitEntry,
+  buildPrEntry,
+  commitInfo,
+  needsPrFiles,
+  prInfo,
+  type PrEntry,
+} from "./entry.js";
+import {
+  combineBumps,
+  effectiveBump,
+  suggestBump,
+  type Bump,
+} from "./semver.js";
+import { discoverPackages } from "./monorepo.js";
+import { renderTemplate } from "./template.js";
+import { lineBumpProblem, releaseLineFor } from "./lines.js";
 
 function assertString(name: string, v: unknown): asserts v is string {
   if (typeof v !== "string")
     throw new Error(`${name} must be a string; got ${typeof v}`);
 }
 
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+/** Expose the aggregate Unreleased bump and next versions (root + packages). */
+async function emitUnreleasedOutputs(
+  octo: Octokit,
+  cfg: Config
+): Promise<UnreleasedSummary> {
+  const { root, packages } = await summarizeUnreleased(
+    octo,
+    github.context,
+    cfg
+  );
+  core.setOutput("unreleased-bump", root.bump);
+  core.setOutput("next-version", root.nextVersion);
+  core.setOutput("packages", JSON.stringify(packages));
+  return root;
+}
+
+/** Expose notes as `notes` / `notes-json` and write the requested files. */
+async function emitNotes(markdown: string, data: NotesData) {
+  core.setOutput("notes", markdown);
+  core.setOutput("notes-json", JSON.stringify(data));
+
+  const files = [
+    [core.getInput("notes-file"), markdown],
+    [core.getInput("notes-json-file"), JSON.stringify(data, null, 2)],
+  ];
+  for (const [file, content] of files) {
+    if (!file) continue;
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, `${content}\n`, "utf8");
+    core.info(`Wrote ${file}`);
+  }
+}
+
+// PR events that write the entry of a merged PR
+const ENTRY_ACTIONS = ["closed", "edited", "labeled", "unlabeled"];
+
+// PR events that (re)render the sticky preview comment
+const PREVIEW_ACTIONS = [
+  "opened",
+  "reopened",
+  "edited",
+  "synchronize",
+  "labeled",
+  "unlabeled",
+];
+
+// Pushed commits that describe no change of their own: the action's changelog writes and merges
+const SKIP_COMMIT_RE =
+  /^(?:chore\(relnote\):|Merge (?:branch|remote-tracking branch|pull request) )/;
+
+/** Categorize the PR from the event payload and infer its monorepo scope. */
+async function describePr(octo: Octokit, cfg: Config): Promise<PrEntry> {
+  const ctx = github.context;
+  const pr = ctx.payload.pull_request!;
+
+  // Figure out which branch/ref to inspect for workspace layout (usually PR base)
+  const baseRef =
+    (ctx.payload as any)?.pull_request?.base?.ref ||
+    (
+      await octo.rest.repos.get({
+        owner: ctx.repo.owner,
+        repo: ctx.repo.repo,
+      })
+    ).data.default_branch;
+
+  const files = needsPrFiles(cfg)
+    ? (await listPrFiles(octo, ctx.repo.owner, ctx.repo.repo, pr.number)).map(
+        (f) => f.filename
+      )
+    : null;
+  const packages = cfg.monorepo?.enabled
+    ? await discoverPackages(
+        githubReader(octo, ctx.repo.owner, ctx.repo.repo, baseRef),
+        cfg.monorepo?.packages
+      )
+    : [];
+
+  const described = buildPrEntry(prInfo(pr), cfg, files, packages);
+
+  const { override, res } = described;
+  if (override.category && !resolveCategory(override.category, cfg)) {
+    core.warning(
+      `PR body category "${override.category}" is not configured; using "${res.category}"`
+    );
+  }
+  return described;
+}
+
+/**
+ * Direct pushes: add an entry for every pushed commit that didn't come in
+ * through a merged PR (those get theirs from the PR events), keyed by its
+ * short SHA.
+ */
+async function runPush(octo: Octokit, cfg: Config) {
+  const ctx = github.context;
+  const { owner, repo } = ctx.repo;
+  const branch = /^refs\/heads\/(.+)$/.exec(ctx.ref)?.[1];
+  if (!branch || ctx.payload.deleted) {
+    core.info(`${ctx.ref} is not a pushed branch; nothing to do`);
+    return;
+  }
+
+  const packages = cfg.monorepo?.enabled
+    ? await discoverPackages(
+        githubReader(octo, owner, repo, branch),
+        cfg.monorepo.packages
+      )
+    : [];
+
+  const bumps: Bump[] = [];
+  const bullets: string[] = [];
+  for (const commit of (ctx.payload.commits ?? []).map(commitInfo)) {
+    const short = commit.sha.slice(0, 7);
+    if (SKIP_COMMIT_RE.test(commit.message)) continue;
+    const pr = await mergedPrForCommit(octo, owner, repo, commit.sha);
+    if (pr) {
+      core.info(`${short} is part of PR #${pr}; its entry comes from the PR`);
+      continue;
+    }
+
+    const files = needsPrFiles(cfg)
+      ? await listCommitFiles(octo, owner, repo, commit.sha)
+      : null;
+    const { res, entry, touched, skipped } = buildCommitEntry(
+      commit,
+      cfg,
+      files,
+      packages
+    );
+    if (skipped) {
+      core.info(`No changelog entry for ${short}: ${skipped}`);
+      continue;
+    }
+    await addUnreleasedEntry(octo, ctx, cfg, entry, touched);
+    bumps.push(suggestBump(res, cfg.bump));
+    bullets.push(...formatEntryBullets(entry, cfg.templates.changelog.bullet));
+  }
+
+  const root = await emitUnreleasedOutputs(octo, cfg);
+  core.setOutput(
+    "bump",
+    effectiveBump(root.currentVersion, combineBumps(bumps), cfg.bump)
+  );
+  core.setOutput("entry", bullets.join("\n"));
+}
+
+/** `mode: check` — fail the job when the PR title/labels violate the policy. */
+async function runCheck(octo: Octokit, cfg: Config) {
+  const ctx = github.context;
+  const pr = ctx.payload.pull_request;
+  if (!pr) {
+    core.info("check mode only runs on pull_request events; nothing to do");
+    return;
+  }
+
+  const { res, labels, touched, override, skipped } = await describePr(
+    octo,
+    cfg
+  );
+  const problems = skipped
+    ? []
+    : checkPullRequest(pr.title, labels, cfg, touched, override);
+  const lineProblem = skipped
+    ? null
+    : lineBumpProblem(
+        releaseLineFor(cfg, pr.base.ref),
+        await entryBump(octo, ctx, cfg, res),
+        "This PR"
+      );
+  if (lineProblem)
+    problems.push({ title: "Too big for release line", message: lineProblem });
+
+  for (const p of problems) core.error(p.message, { title: p.title });
+
+  if (cfg.check?.checkRun) {
+    await octo.rest.checks.create({
+      owner: ctx.repo.owner,
+      repo: ctx.repo.repo,
+      name: "RelNote Pro / PR policy",
+      head_sha: pr.head.sha,
+      status: "completed",
+      conclusion: problems.length ? "failure" : "success",
+      output: {
+        title: problems.length
+          ? `${problems.length} changelog policy problem(s)`
+          : "PR title and labels look good",
+        summary: problems.length
+          ? problems.map((p) => `- **${p.title}**: ${p.message}`).join("\n")
+          : `Title: \`${pr.title}\``,
+      },
+    });
+  }
+
+  if (problems.length) {
+    core.setFailed(
+      `PR title/labels violate the changelog policy (${problems.length} problem(s))`
+    );
+  }
+}
+
+/** Log created releases; outputs describe the first (root) one. */
+async function logReleases(created: CreatedRelease[]) {
+  for (const r of created) {
+    core.info(`${r.draft ? "Drafted" : "Published"} ${r.tag}: ${r.url}`);
+  }
+  const [root] = created;
+  if (!root) return;
+  core.setOutput("bump", root.bump);
+  core.setOutput("release-tag", root.tag);
+  core.setOutput("release-url", root.url);
+  if (root.notes) await emitNotes(root.notes.markdown, root.notes.data);
+}
+
+/** `mode: release-pr` — maintain the release PR, or release it once merged. */
+async function runReleasePr(octo: Octokit, cfg: Config, branch: string) {
+  const ctx = github.context;
+  const pr = ctx.payload.pull_request;
+
+  if (pr) {
+    if (
+      ctx.payload.action === "closed" &&
+      pr.merged &&
+      pr.head.ref === branch
+    ) {
+      await logReleases(
+        await publishReleasePr(octo, ctx, cfg, {
+          draft: core.getBooleanInput("release-draft"),
+        })
+      );
+    }
+    return; // other PR events don't change the release PR
+  }
+  if (ctx.eventName === "push" && ctx.ref === `refs/heads/${branch}`) {
+    core.info(`${branch} is the release PR branch; nothing to do`);
+    return;
+  }
+
+  const updated = await updateReleasePr(octo, ctx, cfg, branch);
+  if (!updated) {
+    core.info("Unreleased is empty; no release PR needed");
+    return;
+  }
+  core.info(
+    `Release PR #${updated.number} (${updated.version}): ${updated.url}`
+  );
+  core.setOutput("next-version", updated.version);
+  core.setOutput("release-pr", String(updated.number));
+}
+
 async function run() {
   const ctx = github.context;
   const token = process.env.GITHUB_TOKEN || process.env.GH_TOKEN;
   if (!token) throw new Error("GITHUB_TOKEN missing");
 
   const octo = github.getOctokit(token);
-  const cfg = await loadConfig(core.getInput("config-path"));
+  const cfg = await loadConfig(core.getInput("config-path"), {
+    failOnMissing: core.getBooleanInput("fail-on-missing"),
+  });
+  const mode = core.getInput("mode") || "auto";
+  const releaseBranch =
+    core.getInput("release-branch") || DEFAULT_RELEASE_BRANCH;
+
+  if (mode === "backfill") {
+    const written = await backfillChangelog(octo, ctx, cfg, {
+      from: core.getInput("backfill-from") || undefined,
+      to: core.getInput("backfill-to") || undefined,
+    });
+    core.info(
+      written.length
+        ? `Backfilled ${written.join(", ")}`
+        : "No tags in range; nothing to backfill"
+    );
+    return;
+  }
+  if (mode === "release") {
+    const created = await createReleaseFromUnreleased(octo, ctx, cfg, {
+      draft: core.getBooleanInput("release-draft"),
+    });
+    if (!created) {
+      core.info("Unreleased is empty; nothing to release");
+      core.setOutput("bump", "none");
+      return;
+    }
+    await logReleases([created]);
+    return;
+  }
+  if (mode === "release-pr") {
+    await runReleasePr(octo, cfg, releaseBranch);
+    return;
+  }
+  // The release PR is the changelog; it never gets an entry, preview or check
+  if (
+    ctx.payload.pull_request?.head?.ref === releaseBranch ||
+    (ctx.eventName === "push" && ctx.ref === `refs/heads/${releaseBranch}`)
+  ) {
+    core.info(`${releaseBranch} is the release PR branch; nothing to do`);
+    return;
+  }
+
+  if (mode === "check") {
+    await runCheck(octo, cfg);
+    return;
+  }
+  if (mode !== "auto") throw new Error(`Unknown mode "${mode}"`);
 
+  // Merging adds the entry; later edits of a merged PR rewrite it in place
   if (
     ctx.eventName === "pull_request" &&
-    ctx.payload.action === "closed" &&
+    ENTRY_ACTIONS.includes(ctx.payload.action ?? "") &&
     ctx.payload.pull_request?.merged
   ) {
-    const pr = ctx.payload.pull_request;
-
-    // Figure out which branch/ref to inspect for workspace layout (usually PR base)
-    const baseRef =
-      (ctx.payload as any)?.pull_request?.base?.ref ||
-      (
-        await octo.rest.repos.get({
-          owner: ctx.repo.owner,
-          repo: ctx.repo.repo,
-        })
-      ).data.default_branch;
+    const { res, entry, touched, skipped } = await describePr(octo, cfg);
+
+    if (skipped) {
+      core.info(`No changelog entry: ${skipped}`);
+      await removeUnreleasedEntry(octo, ctx, cfg, entry.prNumber!, touched);
+      core.setOutput("bump", "none");
+      await emitUnreleasedOutputs(octo, cfg);
+    } else {
+      await addUnreleasedEntry(octo, ctx, cfg, entry, touched);
+      const root = await emitUnreleasedOutputs(octo, cfg);
+      const bump = effectiveBump(
+        root.currentVersion,
+        suggestBump(res, cfg.bump),
+        cfg.bump
+      );
+      core.setOutput("bump", bump);
+
+      const { bullet, categoryHeader } = cfg.templates.changelog;
+      const bullets = formatEntryBullets(entry, bullet).join("\n");
+      const heading = renderTemplate(categoryHeader, {
+        category: entry.category,
+      });
+      core.setOutput("entry", bullets);
+      await emitNotes(
+        `${heading}\n${bullets}`,
+        entryNotesData(entry, bump, root.nextVersion)
+      );
+    }
+  }
+
+  if (
+    ctx.eventName === "pull_request" &&
+    PREVIEW_ACTIONS.includes(ctx.payload.action ?? "")
+  ) {
+    // Edits and labels after merging or closing get no preview
+    const pr = ctx.payload.pull_request!;
+    if (pr.merged || pr.state === "closed") {
+      core.info(
+        `PR #${pr.number} is ${pr.merged ? "merged" : "closed"}; no preview`
+      );
+      return;
+    }
+    const { res, entry, inferredScope, skipped } = await describePr(octo, cfg);
+    // Same bump as merging records (0.x rules included)
+    const bump = skipped ? "none" : await entryBump(octo, ctx, cfg, res);
+    const { bullet, categoryHeader } = cfg.templates.changelog;
 
-    // Try to infer scope from changed files if monorepo is enabled
-    let inferredScope: string | undefined = undefined;
-    if (cfg.monorepo?.enabled) {
-      inferredScope = await detectScopeForCurrentPr(
+    try {
+      await upsertIssueComment(
         octo,
         ctx.repo.owner,
         ctx.repo.repo,
-        baseRef,
-        cfg.monorepo?.packages
+        entry.prNumber!,
+        PREVIEW_MARKER,
+        renderPreview({
+          result: res,
+          inferredScope,
+          heading: renderTemplate(categoryHeader, { category: res.category }),
+          bullets: formatEntryBullets(entry, bullet),
+          bump,
+          skipped,
+        })
       );
+    } catch (err: any) {
+      // Forked PRs get a read-only token; the preview is best-effort
+      if (err?.status !== 403) throw err;
+      core.warning("Could not post the changelog preview comment (403)");
     }
 
-    const res = categorize(
-      pr.title,
-      (pr.labels ?? []).map((l: any) => (typeof l === "string" ? l : l.name)),
-      cfg
-    );
+    core.setOutput("bump", bump);
+  }
 
-    await addUnreleasedEntry(octo, ctx, cfg, {
-      prNumber: pr.number,
-      title: pr.title,
-      category: res.category,
-      scope: res.scope ?? inferredScope, // prefer CC scope; fall back to monorepo inference
-    });
+  if (ctx.eventName === "push") {
+    await runPush(octo, cfg);
+  }
 
-    core.setOutput("bump", suggestBump(res));
+  if (ctx.eventName === "workflow_dispatch" || ctx.eventName === "schedule") {
+    await emitUnreleasedOutputs(octo, cfg);
   }
 
   if (ctx.eventName === "release" && ctx.payload.action === "published") {
-    await releaseUnreleased(octo, ctx, cfg);
+    const { notes, tagProblems } = await releaseUnreleased(octo, ctx, cfg);
+    for (const p of tagProblems)
+      core.warning(p, { title: "Unexpected release tag" });
+    if (notes) await emitNotes(notes.markdown, notes.data);
   }
 }
 
-run().catch((err) =>
-  core.setFailed(err instanceof Error ? err.message : String(err))
-);
+run().catch((err) => {
+  // Point each config problem at its line in .relnote-pro.yml
+  if (err instanceof ConfigError) {
+    for (const issue of err.issues) {
+      core.error(`${issue.path ? `${issue.path}: ` : ""}${issue.message}`, {
+        title: "Invalid RelNote Pro config",
+        file: err.file,
+        startLine: issue.line,
+      });
+    }
+  }
+  core.setFailed(err instanceof Error ? err.message : String(err));
+});
@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import type { Context } from "@actions/github/lib/context";
+import { addUnreleasedEntry, removeUnreleasedEntry } from "./changelog.js";
+import { loadConfig, type Config } from "./config.js";
+import {
+  changelogPathFor,
+  lineBumpProblem,
+  releaseLineFor,
+  versionBump,
+} from "./lines.js";
+
+const withLines = async (
+  releaseLines: Array<Partial<Config["releaseLines"][0]>>
+) => {
+  const cfg = await loadConfig("/nonexistent.yml");
+  cfg.releaseLines = releaseLines.map((l) => ({
+    name: "1.x",
+    branch: "release/1.x",
+    changelogPath: `CHANGELOG-${l.name ?? "1.x"}.md`,
+    maxBump: "minor",
+    forwardPort: false,
+    ...l,
+  }));
+  return cfg;
+};
+
+describe("releaseLineFor / changelogPathFor", () => {
+  it("matches branches against the line globs, first match wins", async () => {
+    const cfg = await withLines([
+      { name: "1.x", branch: "release/1.x" },
+      { name: "legacy", branch: "release/*" },
+      { name: "lts", branch: "lts/**" },
+    ]);
+    expect(releaseLineFor(cfg, "release/1.x")?.name).toBe("1.x");
+    expect(releaseLineFor(cfg, "release/2.x")?.name).toBe("legacy");
+    expect(releaseLineFor(cfg, "lts/2024/q1")?.name).toBe("lts");
+    expect(releaseLineFor(cfg, "release.1.x")).toBeUndefined();
+    expect(releaseLineFor(cfg, "main")).toBeUndefined();
+  });
+
+  it("writes a line's own changelog, else changelogPath", async () => {
+    const cfg = await withLines([{ name: "1.x" }]);
+    expect(changelogPathFor(cfg, "release/1.x")).toBe("CHANGELOG-1.x.md");
+    expect(changelogPathFor(cfg, "main")).toBe("CHANGELOG.md");
+    expect(changelogPathFor(cfg)).toBe("CHANGELOG.md");
+  });
+});
+
+describe("lineBumpProblem", () => {
+  const line = {
+    name: "1.x",
+    branch: "release/1.x",
+    changelogPath: "CHANGELOG-1.x.md",
+    maxBump: "patch" as const,
+    forwardPort: false,
+  };
+
+  it("allows bumps up to maxBump", () => {
+    expect(lineBumpProblem(line, "patch", "#5")).toBeNull();
+    expect(lineBumpProblem(line, "none", "#5")).toBeNull();
+    expect(lineBumpProblem(undefined, "major", "#5")).toBeNull();
+    expect(
+      lineBumpProblem({ ...line, maxBump: "minor" }, "minor", "#5")
+    ).toBeNull();
+  });
+
+  it("rejects bigger bumps", () => {
+    expect(lineBumpProblem(line, "minor", "#5")).toBe(
+      "#5 is a minor change, but release line 1.x (release/1.x) allows at most patch"
+    );
+    expect(
+      lineBumpProblem({ ...line, maxBump: "minor" }, "major", "#5")
+    ).toMatch(/^#5 is a major change/);
+  });
+});
+
+describe("versionBump", () => {
+  it.each([
+    ["1.4.2", "1.4.3", "patch"],
+    ["1.4.2", "1.5.0-rc.1", "minor"],
+    ["1.4.2", "2.0.0", "major"],
+    ["1.4.2", "1.4.2", "none"],
+    ["1.4.2", "1.4", "none"],
+  ])("%s → %s is %s", (from, to, bump) => {
+    expect(versionBump(from, to)).toBe(bump);
+  });
+});
+
+describe("forwardPort", () => {
+  /** Changelogs per "branch:path", as the Contents API sees them. */
+  function fakeRepo(files: Record<string, string>) {
+    const key = (p: { ref?: string; branch?: string; path: string }) =>
+      `${p.ref ?? p.branch}:${p.path}`;
+    const octo = {
+      rest: {
+        repos: {
+          get: async () => ({ data: { default_branch: "main" } }),
+          getContent: async (p: any) => {
+            const text = files[key(p)];
+            if (text === undefined)
+              throw Object.assign(new Error("Not Found"), { status: 404 });
+            const content = Buffer.from(text).toString("base64");
+            return { data: { type: "file", sha: "s1", content } };
+          },
+          createOrUpdateFileContents: async (p: any) => {
+            files[key(p)] = Buffer.from(p.content, "base64").toString("utf8");
+            return { data: { commit: { sha: "c1" } } };
+          },
+        },
+      },
+    };
+    return octo as any;
+  }
+  const ctx = {
+    repo: { owner: "o", repo: "r" },
+    payload: { pull_request: { base: { ref: "release/1.x" } } },
+    eventName: "pull_request",
+    ref: "refs/pull/5/merge",
+  } as unknown as Context;
+  const entry = { prNumber: 5, title: "fix: clamp input", category: "Fixes" };
+  const empty = "# Changelog\n\n## [Unreleased]\n\n## [1.4.2]\n";
+
+  it("also writes the line's entries to the default branch", async () => {
+    const files = {
+      "release/1.x:CHANGELOG-1.x.md": empty,
+      "main:CHANGELOG.md": empty,
+    };
+    const cfg = await withLines([{ forwardPort: true }]);
+    await addUnreleasedEntry(fakeRepo(files), ctx, cfg, entry);
+    expect(files["release/1.x:CHANGELOG-1.x.md"]).toContain(
+      "- clamp input (#5)"
+    );
+    expect(files["main:CHANGELOG.md"]).toContain("- clamp input (#5)");
+
+    await removeUnreleasedEntry(fakeRepo(files), ctx, cfg, 5);
+    expect(files["release/1.x:CHANGELOG-1.x.md"]).toBe(empty);
+    expect(files["main:CHANGELOG.md"]).toBe(empty);
+  });
+
+  it("keeps the entries on the line without it", async () => {
+    const files = {
+      "release/1.x:CHANGELOG-1.x.md": empty,
+      "main:CHANGELOG.md": empty,
+    };
+    const cfg = await withLines([{}]);
+    await addUnreleasedEntry(fakeRepo(files), ctx, cfg, entry);
+    expect(files["release/1.x:CHANGELOG-1.x.md"]).toContain(
+      "- clamp input (#5)"
+    );
+    expect(files["main:CHANGELOG.md"]).toBe(empty);
+  });
+
+  it("rejects entries above the line's maxBump", async () => {
+    const files = { "release/1.x:CHANGELOG-1.x.md": empty };
+    const cfg = await withLines([{ maxBump: "patch" }]);
+    await expect(
+      addUnreleasedEntry(fakeRepo(files), ctx, cfg, {
+        ...entry,
+        title: "feat: add search",
+        category: "Features",
+      })
+    ).rejects.toThrow("allows at most patch");
+    expect(files["release/1.x:CHANGELOG-1.x.md"]).toBe(empty);
+  });
+});
@@ -0,0 +1,49 @@
+import semver from "semver";
+import type { Config, ReleaseLine } from "./config.js";
+import { globToRegExp } from "./monorepo.js";
+import { combineBumps, type Bump } from "./semver.js";
+
+/** The release line a branch belongs to (first matching `releaseLines` entry). */
+export function releaseLineFor(
+  cfg: Config,
+  branch: string
+): ReleaseLine | undefined {
+  return cfg.releaseLines?.find((l) => globToRegExp(l.branch).test(branch));
+}
+
+/** Changelog written on a branch: its release line's file, else `changelogPath`. */
+export function changelogPathFor(cfg: Config, branch?: string): string {
+  const line = branch ? releaseLineFor(cfg, branch) : undefined;
+  return line?.changelogPath ?? cfg.changelogPath ?? "CHANGELOG.md";
+}
+
+/** Bump between two versions ("1.4.2" → "1.5.0-rc.1" is minor). */
+export function versionBump(from: string, to: string): Bump {
+  if (!semver.valid(from) || !semver.valid(to) || !semver.gt(to, from))
+    return "none";
+  const diff = semver.diff(from, to);
+  if (diff === "major" || diff === "premajor") return "major";
+  if (diff === "minor" || diff === "preminor") return "minor";
+  return "patch";
+}
+
+/** Problem message when `bump` exceeds the line's `maxBump`, else null. */
+export function lineBumpProblem(
+  line: ReleaseLine | undefined,
+  bump: Bump,
+  what: string
+): string | null {
+  if (!line || bump === "none") return null;
+  if (combineBumps([bump, line.maxBump]) === line.maxBump) return null;
+  return `${what} is a ${bump} change, but release line ${line.name} (${line.branch}) allows at most ${line.maxBump}`;
+}
+
+/** Throw when `bump` exceeds the line's `maxBump`. */
+export function assertLineBump(
+  line: ReleaseLine | undefined,
+  bump: Bump,
+  what: string
+) {
+  const problem = lineBumpProblem(line, bump, what);
+  if (problem) throw new Error(problem);
+}
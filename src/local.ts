@@ -0,0 +1,98 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import type { RepoReader } from "./monorepo.js";
+
+const exec = promisify(execFile);
+
+/** Run git in a working copy and return trimmed stdout. */
+export async function git(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await exec("git", args, {
+    cwd,
+    maxBuffer: 64 * 1024 * 1024,
+  });
+  return stdout.trim();
+}
+
+/** Read a UTF-8 file relative to the working copy; null if it doesn't exist. */
+export async function readLocalTextFile(
+  cwd: string,
+  file: string
+): Promise<string | null> {
+  try {
+    return await fs.readFile(path.join(cwd, file), "utf8");
+  } catch (e: any) {
+    if (e?.code === "ENOENT") return null;
+    throw e;
+  }
+}
+
+/** Write a UTF-8 file relative to the working copy, creating parent folders. */
+export async function writeLocalTextFile(
+  cwd: string,
+  file: string,
+  content: string
+): Promise<void> {
+  const abs = path.join(cwd, file);
+  await fs.mkdir(path.dirname(abs), { recursive: true });
+  await fs.writeFile(abs, content, "utf8");
+}
+
+/**
+ * Files changed between `base` and the working tree (committed, staged and
+ * unstaged), plus untracked files that aren't ignored.
+ */
+export async function listLocalChangedFiles(
+  cwd: string,
+  base: string
+): Promise<string[]> {
+  const mergeBase = await git(cwd, ["merge-base", base, "HEAD"]);
+  const diff = await git(cwd, ["diff", "--name-only", mergeBase]);
+  const untracked = await git(cwd, [
+    "ls-files",
+    "--others",
+    "--exclude-standard",
+  ]);
+  const files = [diff, untracked].flatMap((out) =>
+    out ? out.split("\n") : []
+  );
+  return [...new Set(files)];
+}
+
+/** Read-only view of the local checkout (tracked files only). */
+export function localReader(cwd: string): RepoReader {
+  return {
+    readText: (file) => readLocalTextFile(cwd, file),
+    listPaths: async () => {
+      const out = await git(cwd, ["ls-files"]);
+      return out ? out.split("\n") : [];
+    },
+  };
+}
+
+/** Web URL of the `origin` remote ("https://github.com/o/r"); null without one. */
+export async function localRepoUrl(cwd: string): Promise<string | null> {
+  let remote: string;
+  try {
+    remote = await git(cwd, ["remote", "get-url", "origin"]);
+  } catch {
+    return null;
+  }
+  // https://host/o/r(.git), ssh://git@host/o/r(.git) or git@host:o/r(.git)
+  const m =
+    /^(?:https?|ssh|git):\/\/(?:[^@/]+@)?([^/:]+)(?::\d+)?\/(.+?)(?:\.git)?\/?$/.exec(
+      remote
+    ) ?? /^[^@/]+@([^:]+):(.+?)(?:\.git)?\/?$/.exec(remote);
+  return m ? `https://${m[1]}/${m[2]}` : null;
+}
+
+/** Checked-out branch name; undefined on a detached HEAD or outside a repo. */
+export async function localBranch(cwd: string): Promise<string | undefined> {
+  try {
+    const branch = await git(cwd, ["rev-parse", "--abbrev-ref", "HEAD"]);
+    return branch && branch !== "HEAD" ? branch : undefined;
+  } catch {
+    return undefined;
+  }
+}
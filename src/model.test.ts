@@ -0,0 +1,243 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildSection,
+  findUnreleased,
+  findVersion,
+  listEntries,
+  parseChangelog,
+  releaseUnreleased,
+  removeEntries,
+  renderChangelog,
+  updateCompareLinks,
+  upsertEntry,
+  upsertVersionSection,
+} from "./model.js";
+
+const CHANGELOG = `# Changelog
+All notable changes to this project will be documented in this file.
+
+## [Unreleased]
+
+### Features
+- **BREAKING:** [api] drop v1 (#12)
+  Use the v2 endpoints.
+- add search (#11)
+
+### Fixes
+- clamp input (1a2b3c4)
+
+## [1.1.0] – 2024-05-01
+
+Some notes before the first category.
+
+### Features
+- add export (#9)
+
+## Old stuff
+
+### Whatever
+* custom bullet
+
+[Unreleased]: https://github.com/o/r/compare/v1.1.0...HEAD
+[1.1.0]: https://github.com/o/r/releases/tag/v1.1.0
+`;
+
+const roundTrip = (text: string) => renderChangelog(parseChangelog(text));
+
+describe("parseChangelog / renderChangelog", () => {
+  it.each([
+    ["a typical changelog", CHANGELOG],
+    ["CRLF line endings", CHANGELOG.replace(/\n/g, "\r\n")],
+    ["no trailing newline", CHANGELOG.trimEnd()],
+    ["several trailing newlines", `${CHANGELOG}\n\n`],
+    ["an empty file", ""],
+    ["only an intro", "# Changelog\n\nNothing yet.\n"],
+    [
+      "headings inside code fences",
+      "# Changelog\n\n## [Unreleased]\n\n```md\n## not a section\n```\n",
+    ],
+    [
+      "link references in the middle",
+      "# Changelog\n\n[a]: https://a\n\n## [1.0.0]\n\n- x (#1)\n\n[1.0.0]: https://b\n",
+    ],
+    [
+      "unknown sections and categories",
+      "# Changelog\n\n## Notes\n\nfree text\n\n### ####\n#### deep\n- y\n",
+    ],
+  ])("round-trips %s byte for byte", (_, text) => {
+    expect(roundTrip(text)).toBe(text);
+  });
+
+  it("normalizes mixed line endings to CRLF", () => {
+    const mixed = "# Changelog\r\n\n## [Unreleased]\n\n- x (#1)\r\n";
+    expect(roundTrip(mixed)).toBe(mixed.replace(/\r?\n/g, "\r\n"));
+  });
+
+  it("splits sections, categories, bullets and the link footer", () => {
+    const doc = parseChangelog(CHANGELOG);
+    expect(doc.sections.map((s) => s.title)).toEqual([
+      "Unreleased",
+      "1.1.0",
+      "Old",
+    ]);
+    expect(doc.sections[1]).toMatchObject({
+      version: "1.1.0",
+      date: "2024-05-01",
+    });
+    expect(doc.footer.map((f) => f.kind)).toEqual(["link", "link"]);
+
+    const [breaking, search, commit] = listEntries(findUnreleased(doc)!);
+    expect(breaking).toMatchObject({
+      category: "Features",
+      bullet: { pr: 12, scope: "api", breaking: true },
+    });
+    expect(breaking.bullet.lines).toHaveLength(2);
+    expect(search.bullet.pr).toBe(11);
+    expect(commit).toMatchObject({
+      category: "Fixes",
+      bullet: { pr: undefined },
+    });
+  });
+
+  it("keeps CRLF line endings when the model is changed", () => {
+    const doc = parseChangelog(CHANGELOG.replace(/\n/g, "\r\n"));
+    upsertEntry(findUnreleased(doc)!, "Features", 13, ["- new (#13)"]);
+    const out = renderChangelog(doc);
+    expect(out).toContain("### Features\r\n- new (#13)\r\n- **BREAKING:**");
+    expect(out.replace(/\r\n/g, "")).not.toContain("\n");
+  });
+});
+
+describe("upsertEntry", () => {
+  const unreleased = () => {
+    const doc = parseChangelog(CHANGELOG);
+    return { doc, section: findUnreleased(doc)! };
+  };
+
+  it("adds a new entry at the top of its category", () => {
+    const { doc, section } = unreleased();
+    upsertEntry(section, "Fixes", 13, ["- fix it (#13)"]);
+    expect(renderChangelog(doc)).toContain(
+      "### Fixes\n- fix it (#13)\n- clamp input (1a2b3c4)\n"
+    );
+  });
+
+  it("creates a missing category at the end of the section", () => {
+    const { doc, section } = unreleased();
+    upsertEntry(section, "Docs", 13, ["- explain (#13)"]);
+    expect(renderChangelog(doc)).toContain(
+      "- clamp input (1a2b3c4)\n\n### Docs\n- explain (#13)\n\n## [1.1.0]"
+    );
+  });
+
+  it("replaces an existing entry in place", () => {
+    const { doc, section } = unreleased();
+    upsertEntry(section, "Features", 12, ["- drop v1 (#12)"]);
+    expect(renderChangelog(doc)).toContain(
+      "### Features\n- drop v1 (#12)\n- add search (#11)\n"
+    );
+  });
+
+  it("moves an entry whose category changed and drops emptied categories", () => {
+    const { doc, section } = unreleased();
+    upsertEntry(section, "Features", "1a2b3c4", ["- clamp (1a2b3c4)"]);
+    const out = renderChangelog(doc);
+    expect(out).toContain("### Features\n- clamp (1a2b3c4)\n- **BREAKING:**");
+    expect(out).not.toContain("### Fixes");
+  });
+
+  it("is a no-op when the entry is unchanged", () => {
+    const { doc, section } = unreleased();
+    upsertEntry(section, "Features", 11, ["- add search (#11)"]);
+    expect(renderChangelog(doc)).toBe(CHANGELOG);
+  });
+});
+
+describe("removeEntries", () => {
+  it("removes the bullets of a PR and reports how many", () => {
+    const doc = parseChangelog(CHANGELOG);
+    expect(removeEntries(findUnreleased(doc)!, (b) => b.pr === 11)).toBe(1);
+    expect(renderChangelog(doc)).not.toContain("#11");
+    expect(removeEntries(findUnreleased(doc)!, (b) => b.pr === 11)).toBe(0);
+  });
+});
+
+describe("releaseUnreleased", () => {
+  it("moves Unreleased into a version section below it", () => {
+    const doc = parseChangelog(CHANGELOG);
+    const section = releaseUnreleased(doc, "1.2.0", "2024-06-01");
+    expect(section).toMatchObject({ version: "1.2.0", date: "2024-06-01" });
+
+    const out = renderChangelog(doc);
+    expect(out).toContain(
+      "## [Unreleased]\n\n## [1.2.0] – 2024-06-01\n\n### Features\n- **BREAKING:**"
+    );
+    expect(out).toContain("- clamp input (1a2b3c4)\n\n## [1.1.0] – 2024-05-01");
+    expect(listEntries(findUnreleased(doc)!)).toEqual([]);
+  });
+
+  it("returns null when Unreleased is empty", () => {
+    const doc = parseChangelog(CHANGELOG);
+    releaseUnreleased(doc, "1.2.0", "2024-06-01");
+    const before = renderChangelog(doc);
+    expect(releaseUnreleased(doc, "1.2.1", "2024-06-02")).toBeNull();
+    expect(renderChangelog(doc)).toBe(before);
+  });
+
+  it("folds prerelease sections into the stable release", () => {
+    const doc = parseChangelog(
+      "# Changelog\n\n## [Unreleased]\n\n### Fixes\n- b (#2)\n\n## [2.0.0-rc.1]\n\n### Features\n- a (#1)\n- b (#2)\n"
+    );
+    const section = releaseUnreleased(doc, "2.0.0", "2024-06-01", undefined, {
+      prereleases: [findVersion(doc, "2.0.0-rc.1")!],
+    });
+    expect(listEntries(section!).map((e) => e.bullet.pr)).toEqual([2, 1]);
+    expect(findVersion(doc, "2.0.0-rc.1")).toBeUndefined();
+  });
+});
+
+describe("upsertVersionSection", () => {
+  it("inserts sections in SemVer order and replaces existing ones", () => {
+    const doc = parseChangelog(CHANGELOG);
+    upsertVersionSection(
+      doc,
+      buildSection("1.0.0", "2024-01-01", [
+        { name: "Fixes", bullets: ["- old fix (#1)"] },
+      ])
+    );
+    upsertVersionSection(
+      doc,
+      buildSection("1.1.0", "2024-05-01", [
+        { name: "Features", bullets: ["- add export (#9)", "- more (#10)"] },
+      ])
+    );
+    expect(doc.sections.map((s) => s.title)).toEqual([
+      "Unreleased",
+      "1.1.0",
+      "Old",
+      "1.0.0",
+    ]);
+    expect(renderChangelog(doc)).toContain(
+      "## [1.1.0] – 2024-05-01\n\n### Features\n- add export (#9)\n- more (#10)\n\n## Old stuff"
+    );
+  });
+});
+
+describe("updateCompareLinks", () => {
+  const links = { repoUrl: "https://github.com/o/r", tagPrefix: "v" };
+
+  it("keeps up-to-date links untouched", () => {
+    const doc = parseChangelog(CHANGELOG);
+    updateCompareLinks(doc, links);
+    expect(renderChangelog(doc)).toBe(CHANGELOG);
+  });
+
+  it("adds the new version and moves the Unreleased link", () => {
+    const doc = parseChangelog(CHANGELOG);
+    releaseUnreleased(doc, "1.2.0", "2024-06-01");
+    updateCompareLinks(doc, links);
+    expect(renderChangelog(doc)).toMatch(
+      /\[Unreleased\]: https:\/\/github.com\/o\/r\/compare\/v1\.2\.0\.\.\.HEAD\n\[1\.2\.0\]: https:\/\/github.com\/o\/r\/compare\/v1\.1\.0\.\.\.v1\.2\.0\n\[1\.1\.0\]: https:\/\/github.com\/o\/r\/releases\/tag\/v1\.1\.0\n$/
+    );
+  });
+});
@@ -0,0 +1,679 @@
+/**
+ * Structured changelog model.
+ *
+ * `parseChangelog` splits a Keep a Changelog–style file into intro, version
+ * sections, categories, bullets and trailing link references. Every node keeps
+ * its raw lines, so `renderChangelog(parseChangelog(text)) === text` for any
+ * input with consistent line endings (a file mixing CRLF and LF comes back
+ * as CRLF throughout); mutations only touch the nodes they change.
+ */
+
+import semver from "semver";
+
+export type RawLine = { kind: "raw"; line: string };
+
+export type Bullet = {
+  kind: "bullet";
+  lines: string[]; // "- text" followed by indented continuation lines
+  text: string; // first line without the list marker
+  pr?: number;
+  scope?: string;
+  breaking: boolean;
+};
+
+export type Item = Bullet | RawLine;
+
+/** What an entry is keyed by: its PR number, or the short SHA of a direct commit. */
+export type EntryRef = number | string;
+
+export type Category = {
+  heading: string; // raw "### Name" line
+  name: string;
+  items: Item[];
+};
+
+export type Section = {
+  heading: string; // raw "## [1.2.3] – 2024-01-01" line
+  title: string; // "Unreleased" or the version as written
+  version?: string; // set for version sections ("1.2.3", "2.0.0-rc.1")
+  date?: string;
+  unreleased: boolean;
+  preamble: Item[]; // content between the heading and the first category
+  categories: Category[];
+};
+
+export type LinkRef = {
+  kind: "link";
+  label: string;
+  url: string;
+  line: string;
+};
+
+/** Where compare links point: "https://github.com/o/r" and the tag prefix ("v", "pkg@"). */
+export type CompareLinks = { repoUrl: string; tagPrefix: string };
+
+export type Changelog = {
+  intro: string[];
+  sections: Section[];
+  footer: Array<LinkRef | RawLine>; // trailing "[label]: url" block
+  eol: "\n" | "\r\n";
+  finalNewline: boolean;
+};
+
+export const DEFAULT_INTRO = [
+  "# Changelog",
+  "All notable changes to this project will be documented in this file.",
+  "",
+];
+
+// Written in front of breaking bullets so the bump can be recomputed later
+export const BREAKING_MARKER = "**BREAKING:** ";
+
+const SECTION_RE = /^##(?!#)\s*(.*?)\s*$/;
+const CATEGORY_RE = /^###(?!#)\s*(.*?)\s*$/;
+const BULLET_RE = /^[-*+]\s+(.*)$/;
+const CONTINUATION_RE = /^\s+\S/;
+const LINK_RE = /^\s*\[([^\]]+)\]:\s*(\S+)\s*$/;
+const VERSION_RE = /^v?(\d+\.\d+\.\d+(?:[-+][0-9A-Za-z.+-]*)?)$/;
+
+// --- Parsing -------------------------------------------------------------
+
+function parseHeading(heading: string): {
+  title: string;
+  version?: string;
+  date?: string;
+} {
+  const rest = SECTION_RE.exec(heading)?.[1] ?? "";
+  let title: string;
+  let tail: string;
+  const bracket = /^\[([^\]]*)\](.*)$/.exec(rest);
+  if (bracket) {
+    title = bracket[1].trim();
+    tail = bracket[2];
+  } else {
+    const parts = /^(\S+)(.*)$/.exec(rest);
+    title = parts?.[1] ?? rest;
+    tail = parts?.[2] ?? "";
+  }
+  const date = tail.replace(/^\s*[-–—]?\s*/, "").trim() || undefined;
+  const version = VERSION_RE.exec(title)?.[1];
+  return { title, version, date };
+}
+
+/**
+ * Parse a single bullet line (plus optional continuation lines). Its PR is the
+ * one referenced at the end of the line; a "#N" elsewhere is just text.
+ */
+export function parseBullet(lines: string[]): Bullet {
+  let text = BULLET_RE.exec(lines[0])?.[1] ?? lines[0];
+  const body = text;
+  const breaking = text.startsWith(BREAKING_MARKER);
+  if (breaking) text = text.slice(BREAKING_MARKER.length);
+  const scope = /^\[([^\]]+)\]\s/.exec(text)?.[1];
+  const ref = /\(#(\d+)\)\s*$/.exec(body)?.[1]; // trailing "(#N)"
+  const pr = ref ? Number(ref) : undefined;
+  return { kind: "bullet", lines, text: body, pr, scope, breaking };
+}
+
+/** Whether a bullet belongs to `ref` (a commit's when its short SHA appears as a word). */
+export function refersTo(bullet: Bullet, ref: EntryRef): boolean {
+  return typeof ref === "number"
+    ? bullet.pr === ref
+    : new RegExp(`\\b${ref}`).test(bullet.text);
+}
+
+function parseItems(lines: string[]): Item[] {
+  const items: Item[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    if (!BULLET_RE.test(lines[i])) {
+      items.push({ kind: "raw", line: lines[i] });
+      continue;
+    }
+    const group = [lines[i]];
+    while (i + 1 < lines.length && CONTINUATION_RE.test(lines[i + 1])) {
+      group.push(lines[++i]);
+    }
+    items.push(parseBullet(group));
+  }
+  return items;
+}
+
+function parseSection(lines: string[]): Section {
+  const heading = lines[0];
+  const { title, version, date } = parseHeading(heading);
+
+  const starts: number[] = [];
+  for (let i = 1; i < lines.length; i++) {
+    if (CATEGORY_RE.test(lines[i])) starts.push(i);
+  }
+
+  const preamble = parseItems(lines.slice(1, starts[0] ?? lines.length));
+  const categories = starts.map((start, n) => {
+    const end = starts[n + 1] ?? lines.length;
+    return {
+      heading: lines[start],
+      name: CATEGORY_RE.exec(lines[start])![1],
+      items: parseItems(lines.slice(start + 1, end)),
+    };
+  });
+
+  return {
+    heading,
+    title,
+    version,
+    date,
+    unreleased: /^unreleased$/i.test(title),
+    preamble,
+    categories,
+  };
+}
+
+/** Parse a changelog into its structured model. */
+export function parseChangelog(text: string): Changelog {
+  const eol = text.includes("\r\n") ? "\r\n" : "\n";
+  const finalNewline = text.endsWith("\n");
+  const lines = text.split(/\r?\n/);
+  if (finalNewline || text === "") lines.pop();
+
+  const starts: number[] = [];
+  let inFence = false;
+  for (let i = 0; i < lines.length; i++) {
+    if (/^\s*(```|~~~)/.test(lines[i])) inFence = !inFence;
+    if (!inFence && SECTION_RE.test(lines[i])) starts.push(i);
+  }
+
+  // Trailing run of link references (blank lines before it stay with the content)
+  let footerStart = lines.length;
+  for (let i = lines.length - 1; i > (starts[starts.length - 1] ?? -1); i--) {
+    if (LINK_RE.test(lines[i])) footerStart = i;
+    else if (lines[i].trim() !== "") break;
+  }
+
+  const footer = lines.slice(footerStart).map((line): LinkRef | RawLine => {
+    const m = LINK_RE.exec(line);
+    return m
+      ? { kind: "link", label: m[1], url: m[2], line }
+      : { kind: "raw", line };
+  });
+
+  const intro = lines.slice(0, Math.min(starts[0] ?? footerStart, footerStart));
+  const sections = starts.map((start, n) =>
+    parseSection(lines.slice(start, starts[n + 1] ?? footerStart))
+  );
+
+  return { intro, sections, footer, eol, finalNewline };
+}
+
+// --- Rendering -----------------------------------------------------------
+
+function itemLines(items: Item[]): string[] {
+  return items.flatMap((it) => (it.kind === "raw" ? [it.line] : it.lines));
+}
+
+function sectionLines(section: Section): string[] {
+  return [
+    section.heading,
+    ...itemLines(section.preamble),
+    ...section.categories.flatMap((c) => [c.heading, ...itemLines(c.items)]),
+  ];
+}
+
+/** Render the model back to text (byte-for-byte for unmodified input). */
+export function renderChangelog(doc: Changelog): string {
+  const lines = [
+    ...doc.intro,
+    ...doc.sections.flatMap(sectionLines),
+    ...doc.footer.map((f) => f.line),
+  ];
+  return lines.join(doc.eol) + (doc.finalNewline ? doc.eol : "");
+}
+
+/** Render a section's content without its heading, trimmed (e.g. for release bodies). */
+export function renderSectionBody(section: Section, eol = "\n"): string {
+  return sectionLines(section).slice(1).join(eol).trim();
+}
+
+// --- Queries -------------------------------------------------------------
+
+export function findUnreleased(doc: Changelog): Section | undefined {
+  return doc.sections.find((s) => s.unreleased);
+}
+
+/** Find a version section ("2.3.0" or "v2.3.0"). */
+export function findVersion(
+  doc: Changelog,
+  version: string
+): Section | undefined {
+  const v = version.replace(/^v/i, "");
+  return doc.sections.find((s) => s.version === v);
+}
+
+/** Newest version section (the first one after Unreleased). */
+export function latestVersion(doc: Changelog): Section | undefined {
+  return doc.sections.find((s) => s.version);
+}
+
+/**
+ * Prerelease sections leading up to the stable `version` (newer than the
+ * previous stable section), newest first.
+ */
+export function pendingPrereleases(doc: Changelog, version: string): Section[] {
+  if (!semver.valid(version)) return []; // non-SemVer tags have nothing to fold
+  const valid = (s: Section) => !!s.version && semver.valid(s.version) !== null;
+  const isPre = (s: Section) => semver.prerelease(s.version!) !== null;
+  const previous = doc.sections.find(
+    (s) => valid(s) && !isPre(s) && semver.lt(s.version!, version)
+  );
+  return doc.sections.filter(
+    (s) =>
+      valid(s) &&
+      isPre(s) &&
+      semver.lt(s.version!, version) &&
+      (!previous || semver.gt(s.version!, previous.version!))
+  );
+}
+
+/** All bullets of a section with the category they are filed under. */
+export function listEntries(
+  section: Section
+): Array<{ category?: string; bullet: Bullet }> {
+  const out: Array<{ category?: string; bullet: Bullet }> = [];
+  for (const it of section.preamble) {
+    if (it.kind === "bullet") out.push({ bullet: it });
+  }
+  for (const c of section.categories) {
+    for (const it of c.items) {
+      if (it.kind === "bullet") out.push({ category: c.name, bullet: it });
+    }
+  }
+  return out;
+}
+
+function hasContent(items: Item[]): boolean {
+  return items.some((it) => it.kind === "bullet" || it.line.trim() !== "");
+}
+
+function endWithBlank(items: Item[]) {
+  const last = items[items.length - 1];
+  if (!last || last.kind !== "raw" || last.line.trim() !== "")
+    items.push({ kind: "raw", line: "" });
+}
+
+/** Insert a bullet after the last item with content, keeping a leading blank line. */
+function appendItem(items: Item[], bullet: Bullet) {
+  let at = items.length;
+  while (at > 0 && !hasContent([items[at - 1]])) at--;
+  if (at === 0 && items[0]?.kind === "raw") at = 1;
+  items.splice(at, 0, bullet);
+  endWithBlank(items);
+}
+
+/** Items a new block should follow: the preamble or the last category. */
+function lastItems(section: Section): Item[] {
+  const last = section.categories[section.categories.length - 1];
+  return last ? last.items : section.preamble;
+}
+
+// --- Mutations -----------------------------------------------------------
+
+/** Default "## [1.2.3] – 2024-01-01" heading of a version section. */
+function versionHeading(version: string, date?: string): string {
+  return `## [${version}]${date ? ` – ${date}` : ""}`;
+}
+
+/** Make sure the file has a "# Changelog" intro and an Unreleased section. */
+export function ensureUnreleased(doc: Changelog): Section {
+  if (!doc.intro.some((l) => /^#\s*Changelog/i.test(l))) {
+    doc.intro = [...DEFAULT_INTRO, ...doc.intro];
+  }
+  const existing = findUnreleased(doc);
+  if (existing) return existing;
+
+  const lastIntro = doc.intro[doc.intro.length - 1];
+  if (lastIntro !== undefined && lastIntro.trim() !== "") doc.intro.push("");
+  const section: Section = {
+    heading: "## [Unreleased]",
+    title: "Unreleased",
+    unreleased: true,
+    preamble: [{ kind: "raw", line: "" }],
+    categories: [],
+  };
+  doc.sections.unshift(section);
+  return section;
+}
+
+/**
+ * Find a category by name or heading (case-insensitive), creating it at the
+ * end of the section with `heading` ("### <name>" by default).
+ */
+export function ensureCategory(
+  section: Section,
+  name: string,
+  heading = `### ${name}`
+): Category {
+  const same = (a: string, b: string) =>
+    a.trim().toLowerCase() === b.trim().toLowerCase();
+  const existing = section.categories.find(
+    (c) => same(c.name, name) || same(c.heading, heading)
+  );
+  if (existing) return existing;
+
+  endWithBlank(lastItems(section));
+  const category: Category = {
+    heading,
+    name: CATEGORY_RE.exec(heading)?.[1] ?? name,
+    items: [],
+  };
+  section.categories.push(category);
+  return category;
+}
+
+/** Move a category to the top of its section (right after the preamble). */
+export function moveCategoryFirst(section: Section, category: Category) {
+  const at = section.categories.indexOf(category);
+  if (at <= 0) return;
+  section.categories.splice(at, 1);
+  section.categories.unshift(category);
+  endWithBlank(category.items);
+}
+
+/** Add a bullet line at the top of a category in the given section. */
+export function addEntry(
+  section: Section,
+  category: string,
+  line: string,
+  heading?: string
+): Bullet {
+  const cat = ensureCategory(section, category, heading);
+  const bullet = parseBullet(line.split("\n"));
+
+  // Insert before the first existing bullet; an empty category gets a trailing blank line
+  const first = cat.items.findIndex((it) => it.kind === "bullet");
+  if (first >= 0) {
+    cat.items.splice(first, 0, bullet);
+  } else {
+    cat.items.unshift(bullet);
+    endWithBlank(cat.items);
+  }
+  return bullet;
+}
+
+/** Remove matching bullets from a section; categories left without content are dropped. */
+export function removeEntries(
+  section: Section,
+  match: (bullet: Bullet, category?: string) => boolean
+): number {
+  let removed = 0;
+  const keep = (items: Item[], category?: string) =>
+    items.filter((it) => {
+      if (it.kind === "bullet" && match(it, category)) {
+        removed++;
+        return false;
+      }
+      return true;
+    });
+
+  section.preamble = keep(section.preamble);
+  for (const c of section.categories) c.items = keep(c.items, c.name);
+  section.categories = section.categories.filter((c) => hasContent(c.items));
+  if (!section.categories.length) endWithBlank(section.preamble);
+  return removed;
+}
+
+/**
+ * Add or replace the bullets of a PR (or direct commit). When it already has
+ * bullets in `category` they are replaced in place; bullets elsewhere in the
+ * section are removed and the new ones go to the top of `category`.
+ */
+export function upsertEntry(
+  section: Section,
+  category: string,
+  ref: EntryRef,
+  lines: string[],
+  heading?: string
+): Bullet[] {
+  const isEntry = (it: Item) => it.kind === "bullet" && refersTo(it, ref);
+  const cat = section.categories.find(
+    (c) =>
+      c.name.toLowerCase() === category.toLowerCase() ||
+      (heading !== undefined && c.heading.trim() === heading.trim())
+  );
+  const at = cat ? cat.items.findIndex(isEntry) : -1;
+
+  if (!cat || at < 0) {
+    removeEntries(section, (b) => refersTo(b, ref));
+    // addEntry inserts at the top of the category, so add in reverse to keep order
+    return [...lines]
+      .reverse()
+      .map((l) => addEntry(section, category, l, heading))
+      .reverse();
+  }
+
+  const bullets = lines.map((l) => parseBullet(l.split("\n")));
+  cat.items = [
+    ...cat.items.slice(0, at).filter((it) => !isEntry(it)),
+    ...bullets,
+    ...cat.items.slice(at).filter((it) => !isEntry(it)),
+  ];
+  removeEntries(section, (b) => refersTo(b, ref) && !bullets.includes(b));
+  return bullets;
+}
+
+/**
+ * Move the Unreleased contents into a new version section placed right after
+ * it; Unreleased stays in place, empty. `fold.prereleases` are folded into
+ * the new section (see `foldSections`). Returns null when there is nothing
+ * to move.
+ */
+export function releaseUnreleased(
+  doc: Changelog,
+  version: string,
+  date?: string,
+  heading = versionHeading(version, date),
+  fold: { prereleases: Section[]; keep?: boolean } = { prereleases: [] }
+): Section | null {
+  const unreleased = findUnreleased(doc);
+  const moving =
+    !!unreleased &&
+    (hasContent(unreleased.preamble) ||
+      unreleased.categories.some((c) => hasContent(c.items)));
+  if (!moving && !fold.prereleases.some((s) => listEntries(s).length))
+    return null;
+
+  const preamble = moving
+    ? unreleased!.preamble.filter(
+        (it) => it.kind === "bullet" || it.line.trim() !== ""
+      )
+    : [];
+  const section: Section = {
+    heading,
+    title: parseHeading(heading).title,
+    version: VERSION_RE.exec(version)?.[1],
+    date,
+    unreleased: false,
+    preamble: [{ kind: "raw", line: "" }, ...preamble],
+    categories: moving ? unreleased!.categories : [],
+  };
+  if (preamble.length) endWithBlank(section.preamble);
+  endWithBlank(lastItems(section));
+
+  if (unreleased) {
+    if (moving) {
+      unreleased.preamble = [{ kind: "raw", line: "" }];
+      unreleased.categories = [];
+    }
+    doc.sections.splice(doc.sections.indexOf(unreleased) + 1, 0, section);
+  } else {
+    upsertVersionSection(doc, section);
+  }
+  foldSections(doc, section, fold.prereleases, fold.keep);
+  return section;
+}
+
+/**
+ * Copy the bullets of `sources` (newest first) into `target`, skipping PRs it
+ * already lists, then drop the source sections unless `keep` is set.
+ */
+export function foldSections(
+  doc: Changelog,
+  target: Section,
+  sources: Section[],
+  keep = false
+) {
+  const seen = new Set(listEntries(target).map((e) => e.bullet.pr));
+  for (const src of sources) {
+    const fresh = (it: Item): it is Bullet =>
+      it.kind === "bullet" && (it.pr === undefined || !seen.has(it.pr));
+    for (const it of src.preamble.filter(fresh))
+      appendItem(target.preamble, it);
+    for (const c of src.categories) {
+      const bullets = c.items.filter(fresh);
+      if (!bullets.length) continue;
+      const cat = ensureCategory(target, c.name, c.heading);
+      for (const b of bullets) appendItem(cat.items, b);
+    }
+    for (const { bullet } of listEntries(src)) seen.add(bullet.pr);
+  }
+  if (!keep) doc.sections = doc.sections.filter((s) => !sources.includes(s));
+}
+
+/** Build a fresh version section from categorized bullet lines (categories in the given order). */
+export function buildSection(
+  version: string,
+  date: string | undefined,
+  categories: Array<{ name: string; bullets: string[]; heading?: string }>,
+  heading = versionHeading(version, date)
+): Section {
+  const section: Section = {
+    heading,
+    title: parseHeading(heading).title,
+    version: VERSION_RE.exec(version)?.[1],
+    date,
+    unreleased: false,
+    preamble: [{ kind: "raw", line: "" }],
+    categories: [],
+  };
+  for (const c of categories) {
+    const { name, bullets } = c;
+    if (!bullets.length) continue;
+    const cat = ensureCategory(section, name, c.heading);
+    for (const line of bullets) cat.items.push(parseBullet(line.split("\n")));
+    endWithBlank(cat.items);
+  }
+  return section;
+}
+
+/**
+ * Insert a version section in SemVer order (newest first, below Unreleased),
+ * replacing an existing section for the same version in place.
+ */
+export function upsertVersionSection(doc: Changelog, section: Section) {
+  endWithBlank(lastItems(section));
+
+  const existing = section.version
+    ? doc.sections.findIndex((s) => s.version === section.version)
+    : -1;
+  if (existing >= 0) {
+    doc.sections[existing] = section;
+    return;
+  }
+
+  let at = doc.sections.findIndex(
+    (s) =>
+      !!s.version &&
+      !!section.version &&
+      semver.valid(s.version) !== null &&
+      semver.lt(s.version, section.version)
+  );
+  if (at === -1) at = doc.sections.length;
+  if (at > 0) endWithBlank(lastItems(doc.sections[at - 1]));
+  else {
+    const lastIntro = doc.intro[doc.intro.length - 1];
+    if (lastIntro !== undefined && lastIntro.trim() !== "") doc.intro.push("");
+  }
+  doc.sections.splice(at, 0, section);
+}
+
+/**
+ * Keep the Keep a Changelog link references in the footer up to date:
+ * `[Unreleased]` compares the latest tag to HEAD and every `[x.y.z]` compares
+ * the previous version's tag to its own (the oldest links to its tag). Only
+ * sections whose heading shows `[title]` get a link; existing references are
+ * updated in place, new ones inserted in section order and references to
+ * versions without a section dropped.
+ */
+export function updateCompareLinks(
+  doc: Changelog,
+  { repoUrl, tagPrefix }: CompareLinks
+) {
+  const tag = (s: Section) => `${tagPrefix}${s.version}`;
+  const versions = doc.sections.filter((s) => s.version);
+
+  const wanted: Array<{ label: string; url: string }> = [];
+  for (const s of doc.sections) {
+    if (!s.heading.includes(`[${s.title}]`)) continue;
+    if (s.unreleased) {
+      if (versions[0])
+        wanted.push({
+          label: s.title,
+          url: `${repoUrl}/compare/${tag(versions[0])}...HEAD`,
+        });
+      continue;
+    }
+    if (!s.version) continue;
+    const prev = versions[versions.indexOf(s) + 1];
+    wanted.push({
+      label: s.title,
+      url: prev
+        ? `${repoUrl}/compare/${tag(prev)}...${tag(s)}`
+        : `${repoUrl}/releases/tag/${tag(s)}`,
+    });
+  }
+  const key = (label: string) => label.toLowerCase();
+
+  // Versions whose section is gone (e.g. folded prereleases) lose their link
+  const titles = new Set(doc.sections.map((s) => key(s.title)));
+  doc.footer = doc.footer.filter(
+    (f) =>
+      f.kind !== "link" || !VERSION_RE.test(f.label) || titles.has(key(f.label))
+  );
+  if (!wanted.length) return;
+
+  const rank = new Map(wanted.map((w, i) => [key(w.label), i]));
+  const existing = new Set<string>();
+  for (const ref of doc.footer) {
+    if (ref.kind !== "link" || !rank.has(key(ref.label))) continue;
+    const url = wanted[rank.get(key(ref.label))!].url;
+    existing.add(key(ref.label));
+    if (ref.url !== url) {
+      ref.line = ref.line.replace(ref.url, url);
+      ref.url = url;
+    }
+  }
+
+  if (!doc.footer.length && doc.sections.length)
+    endWithBlank(lastItems(doc.sections[doc.sections.length - 1]));
+  for (const [i, w] of wanted.entries()) {
+    if (existing.has(key(w.label))) continue;
+    // Before the first managed reference that sorts after this one
+    let at = doc.footer.findIndex(
+      (f) => f.kind === "link" && (rank.get(key(f.label)) ?? -1) > i
+    );
+    if (at === -1) {
+      // After the last managed reference, else after any other reference
+      const links = doc.footer.map((f) => (f.kind === "link" ? f.label : null));
+      const managed = links.map((l) => l !== null && rank.has(key(l)));
+      let last = managed.lastIndexOf(true);
+      if (last === -1) last = links.map((l) => l !== null).lastIndexOf(true);
+      at = last + 1;
+    }
+    const line = `[${w.label}]: ${w.url}`;
+    doc.footer.splice(at, 0, {
+      kind: "link",
+      label: w.label,
+      url: w.url,
+      line,
+    });
+    existing.add(key(w.label));
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import {
+  globToRegExp,
+  inferPackagesFromPaths,
+  scopeForPackages,
+  withoutExcluded,
+} from "./monorepo.js";
+
+describe("globToRegExp", () => {
+  it.each([
+    ["docs/**", "docs/a/b.md", true],
+    ["**/*.md", "README.md", true],
+    ["**/*.md", "packages/api/README.md", true],
+    ["packages/*", "packages/api/src/index.ts", true],
+    ["*.lock", "sub/yarn.lock", false],
+    ["./.github/**", ".github/workflows/ci.yml", true],
+    ["docs/**", "docsite/index.md", false],
+  ])("%s matches %s: %s", (glob, path, hit) => {
+    expect(globToRegExp(glob).test(path)).toBe(hit);
+  });
+});
+
+describe("withoutExcluded", () => {
+  const paths = [
+    "src/index.ts",
+    "docs/guide.md",
+    "README.md",
+    "packages/api/README.md",
+  ];
+
+  it("drops paths matching any glob", () => {
+    expect(withoutExcluded(paths, ["docs/**", "**/README.md"])).toEqual([
+      "src/index.ts",
+    ]);
+  });
+
+  it("keeps everything without globs", () => {
+    expect(withoutExcluded(paths)).toBe(paths);
+    expect(withoutExcluded(paths, [])).toBe(paths);
+  });
+});
+
+describe("inferPackagesFromPaths", () => {
+  const packages = [
+    { dir: "packages/api", name: "@acme/api" },
+    { dir: "packages/api/plugins" },
+    { dir: "packages/web" },
+  ];
+
+  it("finds the most specific package of each path, once", () => {
+    expect(
+      inferPackagesFromPaths(
+        [
+          "packages/api/src/a.ts",
+          "packages/api/plugins/x.ts",
+          "packages/api/src/b.ts",
+          "packages/apis/c.ts",
+          "README.md",
+        ],
+        packages
+      )
+    ).toEqual([packages[0], packages[1]]);
+  });
+
+  it("scopes a single touched package by name, else its folder", () => {
+    expect(scopeForPackages([packages[0]])).toBe("@acme/api");
+    expect(scopeForPackages([packages[2]])).toBe("web");
+    expect(scopeForPackages(packages)).toBeUndefined();
+  });
+});
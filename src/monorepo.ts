@@ -1,41 +1,45 @@
-import * as github from "@actions/github";
 import yaml from "js-yaml";
-import {
-  readTextFileFromRepo,
-  listRepoTreePaths,
-  listPrFiles,
-} from "./github.js";
-type Octokit = ReturnType<typeof github.getOctokit>;
 
 export type WorkspaceGlob = string;
 export type PackageMeta = { dir: string; name?: string };
 
+/** Read-only view of a repository at a fixed ref (GitHub API or local checkout). */
+export type RepoReader = {
+  readText(path: string): Promise<string | null>;
+  listPaths(): Promise<string[]>;
+};
+
 /** Convert a glob like "packages/*" or "apps/**" into a RegExp. Minimal implementation. */
-function globToRegExp(glob: string): RegExp {
-  // Escape regex specials, then bring back globs
+export function globToRegExp(glob: string): RegExp {
+  // Escape regex specials (not "*"), then bring back globs
   let g = glob
-    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
-    .replace(/\\\*\\\*/g, "__GLOBSTAR__")
-    .replace(/\\\*/g, "__GLOB__");
-  g = g.replace(/__GLOBSTAR__/g, ".*").replace(/__GLOB__/g, "[^/]*");
+    .replace(/^\.\//, "")
+    .replace(/[.+^${}()|[\]\\?]/g, "\\$&")
+    .replace(/\*\*/g, "__GLOBSTAR__")
+    .replace(/\*/g, "__GLOB__");
+  g = g
+    .replace(/__GLOBSTAR__\//g, "(?:.*/)?") // "**/" also matches zero folders
+    .replace(/__GLOBSTAR__/g, ".*")
+    .replace(/__GLOB__/g, "[^/]*");
   // Anchor to full path
   return new RegExp("^" + g + "(?:/.*)?$");
 }
 
+/** Drop paths matching any of the (excludePaths-style) globs. */
+export function withoutExcluded(
+  paths: string[],
+  globs: string[] = []
+): string[] {
+  if (!globs.length) return paths;
+  const regexes = globs.map(globToRegExp);
+  return paths.filter((p) => !regexes.some((re) => re.test(p)));
+}
+
 /** Try to read Yarn/NPM workspaces from package.json (root). */
 async function readWorkspacesFromPackageJson(
-  octo: Octokit,
-  owner: string,
-  repo: string,
-  ref: string
+  reader: RepoReader
 ): Promise<WorkspaceGlob[] | null> {
-  const pkgText = await readTextFileFromRepo(
-    octo,
-    owner,
-    repo,
-    "package.json",
-    ref
-  );
+  const pkgText = await reader.readText("package.json");
   if (!pkgText) return null;
   try {
     const pkg = JSON.parse(pkgText);
@@ -53,18 +57,9 @@ async function readWorkspacesFromPackageJson(
 
 /** Try to read pnpm workspaces from pnpm-workspace.yaml */
 async function readWorkspacesFromPnpm(
-  octo: Octokit,
-  owner: string,
-  repo: string,
-  ref: string
+  reader: RepoReader
 ): Promise<WorkspaceGlob[] | null> {
-  const yml = await readTextFileFromRepo(
-    octo,
-    owner,
-    repo,
-    "pnpm-workspace.yaml",
-    ref
-  );
+  const yml = await reader.readText("pnpm-workspace.yaml");
   if (!yml) return null;
   try {
     const data = yaml.load(yml) as any;
@@ -88,10 +83,7 @@ function normalizeGlobs(globs: string[] | null | undefined): WorkspaceGlob[] {
 
 /** Detect workspace globs using (in order): config, root package.json, pnpm-workspace.yaml. */
 export async function detectWorkspaceGlobs(
-  octo: Octokit,
-  owner: string,
-  repo: string,
-  ref: string,
+  reader: RepoReader,
   cfgGlobs?: string[]
 ): Promise<WorkspaceGlob[]> {
   // Prefer explicit config if provided
@@ -99,15 +91,11 @@ export async function detectWorkspaceGlobs(
   if (viaCfg.length) return viaCfg;
 
   // Then try Yarn/NPM workspaces
-  const viaPkg = normalizeGlobs(
-    await readWorkspacesFromPackageJson(octo, owner, repo, ref)
-  );
+  const viaPkg = normalizeGlobs(await readWorkspacesFromPackageJson(reader));
   if (viaPkg.length) return viaPkg;
 
   // Then pnpm
-  const viaPnpm = normalizeGlobs(
-    await readWorkspacesFromPnpm(octo, owner, repo, ref)
-  );
+  const viaPnpm = normalizeGlobs(await readWorkspacesFromPnpm(reader));
   if (viaPnpm.length) return viaPnpm;
 
   return []; // not a monorepo or not configured
@@ -115,15 +103,12 @@ export async function detectWorkspaceGlobs(
 
 /** From a repo tree and workspace globs, return package directories that contain package.json. */
 export async function listWorkspacePackages(
-  octo: Octokit,
-  owner: string,
-  repo: string,
-  ref: string,
+  reader: RepoReader,
   workspaceGlobs: WorkspaceGlob[]
 ): Promise<PackageMeta[]> {
   if (!workspaceGlobs.length) return [];
   const regexes = workspaceGlobs.map(globToRegExp);
-  const allPaths = await listRepoTreePaths(octo, owner, repo, ref);
+  const allPaths = await reader.listPaths();
 
   // Candidate package.json files that match any workspace glob
   const pkgJsonPaths = allPaths.filter((p) => p.endsWith("/package.json"));
@@ -137,7 +122,7 @@ export async function listWorkspacePackages(
     const dir = pkgPath.replace(/\/package\.json$/, "");
     let name: string | undefined;
     try {
-      const text = await readTextFileFromRepo(octo, owner, repo, pkgPath, ref);
+      const text = await reader.readText(pkgPath);
       if (text) {
         const pkg = JSON.parse(text);
         if (typeof pkg.name === "string" && pkg.name.trim())
@@ -151,14 +136,11 @@ export async function listWorkspacePackages(
   return metas;
 }
 
-/** Given file paths changed in a PR and the known packages, infer a single scope if possible. */
-export function inferScopeFromPaths(
+/** Given file paths changed in a PR and the known packages, return every package the PR touches. */
+export function inferPackagesFromPaths(
   changedPaths: string[],
   packages: PackageMeta[]
-): string | undefined {
-  if (!changedPaths.length || !packages.length) return undefined;
-
-  // Find all package dirs touched by this PR
+): PackageMeta[] {
   const touched: PackageMeta[] = [];
   for (const p of changedPaths) {
     const hit = packages
@@ -167,7 +149,11 @@ export function inferScopeFromPaths(
       .sort((a, b) => b.dir.length - a.dir.length)[0];
     if (hit && !touched.some((t) => t.dir === hit.dir)) touched.push(hit);
   }
+  return touched;
+}
 
+/** Scope label for a set of touched packages; only a single package yields a scope. */
+export function scopeForPackages(touched: PackageMeta[]): string | undefined {
   if (touched.length === 1) {
     const only = touched[0];
     return only.name || only.dir.split("/").pop(); // prefer package name, fallback to folder
@@ -177,27 +163,44 @@ export function inferScopeFromPaths(
   return undefined;
 }
 
-/** High-level helper: detect scope for the current PR using repo workspaces. */
-export async function detectScopeForCurrentPr(
-  octo: Octokit,
-  owner: string,
-  repo: string,
-  ref: string,
-  cfgGlobs?: string[]
-): Promise<string | undefined> {
-  const prNumber = (github.context.payload as any)?.pull_request?.number;
-  if (!prNumber) return undefined;
+/** Path of the CHANGELOG.md that belongs to a workspace package. */
+export function packageChangelogPath(pkg: PackageMeta): string {
+  return `${pkg.dir}/CHANGELOG.md`;
+}
 
-  // List PR files
-  const files = await listPrFiles(octo, owner, repo, prNumber);
-  const changed = files.map((f) => f.filename);
+/**
+ * Match a package-scoped release tag against the known packages.
+ * Supports "@acme/api@1.4.0" / "api@1.4.0" (package name) and "api-v1.4.0" (folder name).
+ */
+export function matchPackageTag(
+  tag: string,
+  packages: PackageMeta[]
+): { pkg: PackageMeta; version: string } | undefined {
+  const byName = /^(.+)@v?(\d+\.\d+\.\d+\S*)$/.exec(tag);
+  if (byName) {
+    const pkg = packages.find(
+      (p) => p.name === byName[1] || p.dir.split("/").pop() === byName[1]
+    );
+    if (pkg) return { pkg, version: byName[2] };
+  }
 
-  // Discover workspace globs and package metas
-  const globs = await detectWorkspaceGlobs(octo, owner, repo, ref, cfgGlobs);
-  if (!globs.length) return undefined;
+  const byDir = /^(.+)-v(\d+\.\d+\.\d+\S*)$/.exec(tag);
+  if (byDir) {
+    const pkg = packages.find(
+      (p) => p.dir.split("/").pop() === byDir[1] || p.name === byDir[1]
+    );
+    if (pkg) return { pkg, version: byDir[2] };
+  }
 
-  const pkgs = await listWorkspacePackages(octo, owner, repo, ref, globs);
-  if (!pkgs.length) return undefined;
+  return undefined;
+}
 
-  return inferScopeFromPaths(changed, pkgs);
+/** Discover workspace packages (config globs, package.json or pnpm-workspace.yaml). */
+export async function discoverPackages(
+  reader: RepoReader,
+  cfgGlobs?: string[]
+): Promise<PackageMeta[]> {
+  const globs = await detectWorkspaceGlobs(reader, cfgGlobs);
+  if (!globs.length) return [];
+  return listWorkspacePackages(reader, globs);
 }
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { loadConfig } from "./config.js";
+import { parsePrBody } from "./prbody.js";
+
+const cfg = await loadConfig("/nonexistent.yml");
+
+describe("parsePrBody", () => {
+  it("reads bullets, category and a breaking note from the Changelog section", () => {
+    const body = [
+      "Some context.",
+      "",
+      "## Changelog",
+      "- Search across all projects",
+      "* Faster exports",
+      "category: Fixes",
+      "breaking: `foo` was renamed to `bar`;",
+      "update your config.",
+      "",
+      "## Testing",
+      "- not a bullet",
+    ].join("\n");
+    expect(parsePrBody(body, cfg)).toEqual({
+      bullets: ["Search across all projects", "Faster exports"],
+      category: "Fixes",
+      breaking: "`foo` was renamed to `bar`; update your config.",
+      skip: false,
+    });
+  });
+
+  it("reads the <!-- relnote --> block and ignores other comments in it", () => {
+    const body =
+      "<!-- relnote -->\r\n<!-- one bullet per line -->\r\n- Add search\r\n<!-- /relnote -->\r\n- outside";
+    expect(parsePrBody(body, cfg)).toMatchObject({
+      bullets: ["Add search"],
+      breaking: undefined,
+    });
+  });
+
+  it("takes a BREAKING CHANGE paragraph outside the block as the note", () => {
+    const body =
+      "Drops v1.\n\nBREAKING CHANGE: the v1 endpoints are gone.\nUse v2.\nRefs: #4";
+    expect(parsePrBody(body, cfg).breaking).toBe(
+      "the v1 endpoints are gone. Use v2."
+    );
+  });
+
+  it.each(["no", "None", "false", "N/A", "-", "no."])(
+    "treats `breaking: %s` as not breaking",
+    (answer) => {
+      const body = `## Changelog\ncategory: Features\nbreaking: ${answer}\n`;
+      expect(parsePrBody(body, cfg)).toMatchObject({
+        category: "Features",
+        breaking: undefined,
+      });
+    }
+  );
+
+  it("finds the skip marker on its own line or in a comment", () => {
+    expect(parsePrBody("Chore.\n\nskip-changelog\n", cfg).skip).toBe(true);
+    expect(parsePrBody("<!-- Skip-Changelog -->", cfg).skip).toBe(true);
+    expect(parsePrBody("please skip-changelog here", cfg).skip).toBe(false);
+    expect(parsePrBody(null, cfg)).toEqual({
+      bullets: [],
+      breaking: undefined,
+      skip: false,
+    });
+  });
+});
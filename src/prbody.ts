@@ -0,0 +1,128 @@
+import type { Config } from "./config.js";
+
+/** Changelog instructions an author left in the PR description. */
+export type BodyOverride = {
+  bullets: string[]; // custom bullet texts; empty → derive from the title
+  category?: string; // as written; resolve with resolveCategory()
+  breaking?: string; // breaking-change / migration note
+  skip: boolean;
+};
+
+const BLOCK_COMMENT_RE =
+  /<!--\s*relnote\s*-->([\s\S]*?)(?:<!--\s*\/\s*relnote\s*-->|$)/i;
+const HEADING_RE = /^(#{1,6})\s*changelog\s*:?\s*$/i;
+const KEY_RE = /^(category|breaking|breaking[ -]change)\s*:\s*(.*)$/i;
+// "breaking: no" in a PR template answers the question; it isn't a note
+const NOT_BREAKING_RE = /^(?:no|none|false|n\/a|-)\.?$/i;
+
+// Conventional Commit style migration note anywhere in the body; ends at a blank line or the next footer
+const BREAKING_RE = /^BREAKING[ -]CHANGES?:\s*(.*)$/;
+const FOOTER_RE = /^[\w-]+(?::\s|\s#)/;
+
+/** Extract the "## Changelog" section or the <!-- relnote --> block. */
+function extractBlock(body: string): string | undefined {
+  const comment = BLOCK_COMMENT_RE.exec(body);
+  if (comment) return comment[1];
+
+  const lines = body.split(/\r?\n/);
+  const start = lines.findIndex((l) => HEADING_RE.test(l.trim()));
+  if (start === -1) return undefined;
+  const level = HEADING_RE.exec(lines[start].trim())![1].length;
+
+  let end = lines.length;
+  for (let i = start + 1; i < lines.length; i++) {
+    const h = /^(#{1,6})\s/.exec(lines[i].trim());
+    if (h && h[1].length <= level) {
+      end = i;
+      break;
+    }
+  }
+  return lines.slice(start + 1, end).join("\n");
+}
+
+/** True if the body carries the skip marker as its own line or as <!-- marker -->. */
+function hasSkipMarker(body: string, marker: string): boolean {
+  const m = marker.trim().toLowerCase();
+  if (!m) return false;
+  return body
+    .split(/\r?\n/)
+    .map((l) => l.trim().toLowerCase())
+    .some(
+      (l) => l === m || l.replace(/^<!--\s*/, "").replace(/\s*-->$/, "") === m
+    );
+}
+
+/** Text of a "BREAKING CHANGE: …" paragraph (or commit footer), if any. */
+function breakingParagraph(body: string): string | undefined {
+  const lines = body.split(/\r?\n/).map((l) => l.trim());
+  const start = lines.findIndex((l) => BREAKING_RE.test(l));
+  if (start === -1) return undefined;
+
+  const note = [BREAKING_RE.exec(lines[start])![1]];
+  for (const line of lines.slice(start + 1)) {
+    if (!line || FOOTER_RE.test(line)) break;
+    note.push(line);
+  }
+  return note.join(" ").trim() || undefined;
+}
+
+/**
+ * Parse changelog overrides from a PR body (a "BREAKING CHANGE:" paragraph
+ * outside the block counts as `breaking:`):
+ *
+ *     ## Changelog
+ *     - Customer-facing bullet
+ *     category: Fixes
+ *     breaking: `foo` was renamed to `bar`; update your config.
+ */
+export function parsePrBody(
+  body: string | null | undefined,
+  cfg: Config
+): BodyOverride {
+  const text = body ?? "";
+  const out: BodyOverride = {
+    bullets: [],
+    skip: hasSkipMarker(text, cfg.skipMarker ?? "skip-changelog"),
+    breaking: breakingParagraph(text),
+  };
+
+  const block = extractBlock(text);
+  if (block === undefined) return out;
+
+  let inBreaking = false;
+  const breaking: string[] = [];
+  const content = block.replace(/<!--(?!\s*\/?\s*relnote)[\s\S]*?-->/g, "");
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) {
+      inBreaking = false;
+      continue;
+    }
+
+    const key = KEY_RE.exec(line);
+    if (key) {
+      inBreaking = key[1].toLowerCase() !== "category";
+      if (inBreaking) {
+        if (key[2].trim()) breaking.push(key[2].trim());
+      } else if (key[2].trim()) {
+        out.category = key[2].trim();
+      }
+      continue;
+    }
+
+    const bullet = /^[-*+]\s+(.+)$/.exec(line);
+    if (bullet && !inBreaking) {
+      out.bullets.push(bullet[1].trim());
+      continue;
+    }
+
+    // Continuation of a breaking note paragraph
+    if (inBreaking) breaking.push(line);
+  }
+
+  if (breaking.length) {
+    const note = breaking.join(" ");
+    out.breaking = NOT_BREAKING_RE.test(note) ? undefined : note;
+  }
+  return out;
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { PREVIEW_MARKER, renderPreview } from "./preview.js";
+
+describe("renderPreview", () => {
+  const result = { category: "Features", breaking: false };
+
+  it("names the category heading as configured", () => {
+    const body = renderPreview({
+      result,
+      heading: "### ✨ Features",
+      bullets: ["- add search (#11)"],
+      bump: "minor",
+    });
+    expect(body.startsWith(PREVIEW_MARKER)).toBe(true);
+    expect(body).toContain(
+      "this bullet will be added under `## [Unreleased]` → `### ✨ Features`:"
+    );
+    expect(body).toContain("```md\n- add search (#11)\n```");
+  });
+
+  it("explains why a skipped PR gets no entry", () => {
+    const body = renderPreview({
+      result,
+      heading: "### Features",
+      bullets: [],
+      bump: "none",
+      skipped: "the PR has the `no-changelog` label",
+    });
+    expect(body).toContain(
+      "No changelog entry will be added: the PR has the `no-changelog` label."
+    );
+    expect(body).not.toContain("```md");
+  });
+});
@@ -0,0 +1,55 @@
+import type { CategorizeResult } from "./categorize.js";
+import type { Bump } from "./semver.js";
+
+/** Hidden marker used to find (and keep updating) the single preview comment. */
+export const PREVIEW_MARKER = "<!-- relnote-pro:preview -->";
+
+export type PreviewData = {
+  result: CategorizeResult;
+  inferredScope?: string;
+  heading: string; // category heading rendered from `categoryHeader`
+  bullets: string[];
+  bump: Bump;
+  skipped?: string; // reason the PR produces no entry
+};
+
+/** Render the sticky PR comment showing the changelog entry this PR will produce. */
+export function renderPreview(p: PreviewData): string {
+  if (p.skipped) {
+    return [
+      PREVIEW_MARKER,
+      "### RelNote Pro — changelog preview",
+      "",
+      `No changelog entry will be added: ${p.skipped}.`,
+      "",
+    ].join("\n");
+  }
+
+  let scope = "_none_";
+  if (p.result.scope) scope = `\`${p.result.scope}\` (from title)`;
+  else if (p.inferredScope)
+    scope = `\`${p.inferredScope}\` (inferred from changed files)`;
+
+  return [
+    PREVIEW_MARKER,
+    "### RelNote Pro — changelog preview",
+    "",
+    "| | |",
+    "| --- | --- |",
+    `| Category | ${p.result.category} |`,
+    `| Scope | ${scope} |`,
+    `| Breaking | ${p.result.breaking ? "yes" : "no"} |`,
+    `| SemVer bump | \`${p.bump}\` |`,
+    "",
+    `On merge, ${
+      p.bullets.length > 1 ? "these bullets" : "this bullet"
+    } will be added under \`## [Unreleased]\` → \`${p.heading}\`:`,
+    "",
+    "```md",
+    ...p.bullets,
+    "```",
+    "",
+    "<sub>Edit the PR title, labels or the `## Changelog` block in the description to change it; this comment updates automatically.</sub>",
+    "",
+  ].join("\n");
+}
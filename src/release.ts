@@ -0,0 +1,143 @@
+import { Context } from "@actions/github/lib/context";
+import * as github from "@actions/github";
+type Octokit = ReturnType<typeof github.getOctokit>;
+import type { Config } from "./config.js";
+import {
+  editChangelog,
+  formatDate,
+  getTargetBranch,
+  releaseNotes,
+  releaseOptions,
+  releaseVersion,
+  summarizeUnreleased,
+  type ReleaseNotes,
+  type UnreleasedSummary,
+} from "./changelog.js";
+import { listVersionTags, tagPrefixOf } from "./github.js";
+import { nextVersion, type Bump } from "./semver.js";
+import { assertLineBump, releaseLineFor } from "./lines.js";
+import type { Section } from "./model.js";
+
+export type CreatedRelease = {
+  version: string;
+  tag: string;
+  bump: Bump;
+  url: string;
+  draft: boolean;
+  notes?: ReleaseNotes; // unset when the tag has no changelog section
+};
+
+/**
+ * Next root version and its tag: latest SemVer tag (else
+ * `root.currentVersion`) + the Unreleased bump. The tag uses `prefix`, else
+ * the latest tag's prefix. Release lines pass `fromTags: false` and continue
+ * from their own changelog, since newer lines own the latest tags.
+ */
+export async function planVersion(
+  octo: Octokit,
+  owner: string,
+  repo: string,
+  root: UnreleasedSummary,
+  prefix?: string,
+  fromTags = true
+): Promise<{ version: string; tag: string; tagPrefix: string }> {
+  const latest = (await listVersionTags(octo, owner, repo, prefix)).at(-1);
+  const version = nextVersion(
+    (fromTags ? latest?.version : undefined) ?? root.currentVersion,
+    root.bump
+  );
+  const tagPrefix = prefix ?? tagPrefixOf(latest);
+  return { version, tag: `${tagPrefix}${version}`, tagPrefix };
+}
+
+/** Tag `sha` and create a GitHub Release for it; returns the release URL. */
+export async function publishRelease(
+  octo: Octokit,
+  owner: string,
+  repo: string,
+  release: { tag: string; sha: string; body: string; draft?: boolean }
+): Promise<string> {
+  // Tag explicitly so drafts get their tag too (GitHub defers it until publishing)
+  await octo.rest.git.createRef({
+    owner,
+    repo,
+    ref: `refs/tags/${release.tag}`,
+    sha: release.sha,
+  });
+  const { data } = await octo.rest.repos.createRelease({
+    owner,
+    repo,
+    tag_name: release.tag,
+    name: release.tag,
+    body: release.body,
+    draft: !!release.draft,
+  });
+  return data.html_url;
+}
+
+/**
+ * Cut a release from the root Unreleased section: the next version is the
+ * latest SemVer tag plus the aggregate Unreleased bump. Moves Unreleased into
+ * the version section, tags the changelog commit and creates the GitHub
+ * Release with the section as its body. Returns null when there is nothing
+ * to release.
+ */
+export async function createReleaseFromUnreleased(
+  octo: Octokit,
+  ctx: Context,
+  cfg: Config,
+  opts: { draft?: boolean } = {}
+): Promise<CreatedRelease | null> {
+  const { owner, repo } = ctx.repo;
+
+  const { root } = await summarizeUnreleased(octo, ctx, cfg);
+  if (root.bump === "none") return null;
+
+  const branch = await getTargetBranch(octo, ctx, cfg);
+  const line = releaseLineFor(cfg, branch);
+  assertLineBump(line, root.bump, `Unreleased on ${branch}`);
+
+  const { version, tag, tagPrefix } = await planVersion(
+    octo,
+    owner,
+    repo,
+    root,
+    cfg.tagPrefix,
+    !line
+  );
+  const release = releaseOptions(ctx, cfg, tagPrefix, line);
+
+  let section = null as Section | null;
+  const sha = await editChangelog(
+    octo,
+    ctx,
+    cfg,
+    `chore(relnote): release ${version}`,
+    (doc) => {
+      section = releaseVersion(
+        doc,
+        version,
+        formatDate(new Date(), cfg.dates),
+        release
+      );
+    }
+  );
+  if (!section || !sha) return null; // released in the meantime
+
+  const notes = await releaseNotes(octo, ctx, cfg, section);
+  const url = await publishRelease(octo, owner, repo, {
+    tag,
+    sha,
+    body: `${notes.body}\n`,
+    draft: opts.draft,
+  });
+
+  return {
+    version,
+    tag,
+    bump: root.bump,
+    url,
+    draft: !!opts.draft,
+    notes,
+  };
+}
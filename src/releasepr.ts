@@ -0,0 +1,304 @@
+import { Context } from "@actions/github/lib/context";
+import * as github from "@actions/github";
+type Octokit = ReturnType<typeof github.getOctokit>;
+import type { Config } from "./config.js";
+import {
+  formatDate,
+  getTargetBranch,
+  packageJsonVersion,
+  parseUnreleasedEntries,
+  parseWithTemplates,
+  perPackageChangelogsEnabled,
+  releaseNotes,
+  releaseOptions,
+  releaseText,
+  setPackageJsonVersion,
+  summarizeText,
+} from "./changelog.js";
+import {
+  bumpForEntries,
+  effectiveBump,
+  nextVersion,
+  type Bump,
+} from "./semver.js";
+import { commitFiles, forceBranch, githubReader } from "./github.js";
+import {
+  discoverPackages,
+  packageChangelogPath,
+  scopeForPackages,
+  type RepoReader,
+} from "./monorepo.js";
+import { findVersion } from "./model.js";
+import { assertLineBump, changelogPathFor, releaseLineFor } from "./lines.js";
+import { planVersion, publishRelease, type CreatedRelease } from "./release.js";
+
+export const DEFAULT_RELEASE_BRANCH = "relnote/release";
+
+// Hidden JSON in the PR body; read back when the PR is merged
+const PLAN_RE = /<!-- relnote-release:(\{.*?\}) -->/;
+
+type PackageRelease = {
+  name: string;
+  previous: string;
+  version: string;
+  bump: Bump;
+  tag: string;
+  changelog?: string;
+};
+
+type ReleasePlan = {
+  version: string;
+  bump: Bump;
+  tag: string;
+  packages: PackageRelease[];
+};
+
+function renderReleasePrBody(plan: ReleasePlan, notes: string): string {
+  const lines = [
+    `<!-- relnote-release:${JSON.stringify(plan)} -->`,
+    `Merging this PR tags **${plan.tag}** and publishes its GitHub Release.`,
+    "",
+    `## ${plan.tag}`,
+    "",
+    notes || "_No entries._",
+  ];
+  if (plan.packages.length) {
+    lines.push("", "### Package versions", "");
+    for (const p of plan.packages)
+      lines.push(`- \`${p.name}\` ${p.previous} → ${p.version}`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Bump every workspace package with Unreleased changes: entries from its own
+ * changelog (with `monorepo.perPackageChangelogs`) or root entries scoped to
+ * it. Adds the changed files to `files`.
+ */
+async function planPackages(
+  reader: RepoReader,
+  ctx: Context,
+  cfg: Config,
+  rootText: string,
+  date: string,
+  files: Record<string, string>
+): Promise<PackageRelease[]> {
+  if (!cfg.monorepo?.enabled) return [];
+  const perPackage = perPackageChangelogsEnabled(cfg);
+  const tpl = cfg.templates.changelog;
+  const rootEntries = parseUnreleasedEntries(rootText, tpl);
+
+  const out: PackageRelease[] = [];
+  for (const pkg of await discoverPackages(reader, cfg.monorepo.packages)) {
+    const pkgJsonPath = `${pkg.dir}/package.json`;
+    const pkgJson = await reader.readText(pkgJsonPath);
+    const previous = packageJsonVersion(pkgJson);
+    if (!pkgJson || !previous) continue; // e.g. private packages without a version
+
+    const changelogPath = packageChangelogPath(pkg);
+    const changelog = perPackage ? await reader.readText(changelogPath) : null;
+    const scope = scopeForPackages([pkg]);
+    const entries = perPackage
+      ? changelog
+        ? parseUnreleasedEntries(changelog, tpl)
+        : []
+      : rootEntries.filter((e) => e.scope === scope);
+    const bump = effectiveBump(
+      previous,
+      bumpForEntries(entries, cfg.bump),
+      cfg.bump
+    );
+    if (bump === "none") continue;
+
+    const name = pkg.name ?? pkg.dir.split("/").pop()!;
+    const version = nextVersion(previous, bump);
+    files[pkgJsonPath] = setPackageJsonVersion(pkgJson, version);
+    const released = changelog
+      ? releaseText(
+          changelog,
+          version,
+          date,
+          releaseOptions(ctx, cfg, `${name}@`)
+        )
+      : null;
+    if (released) files[changelogPath] = released.text;
+
+    out.push({
+      name,
+      previous,
+      version,
+      bump,
+      tag: `${name}@${version}`,
+      changelog: released ? changelogPath : undefined,
+    });
+  }
+  return out;
+}
+
+/**
+ * Open or update the long-lived release PR: the release branch is rebuilt
+ * from the target branch with Unreleased moved into the next version section
+ * and the root / affected workspace package.json versions bumped. Returns
+ * null when there is nothing to release.
+ */
+export async function updateReleasePr(
+  octo: Octokit,
+  ctx: Context,
+  cfg: Config,
+  branch = DEFAULT_RELEASE_BRANCH
+): Promise<{ number: number; url: string; version: string } | null> {
+  const { owner, repo } = ctx.repo;
+  const base = await getTargetBranch(octo, ctx, cfg);
+  const reader = githubReader(octo, owner, repo, base);
+  const path = changelogPathFor(cfg, base);
+  const line = releaseLineFor(cfg, base);
+
+  const rootText = await reader.readText(path);
+  if (!rootText) {
+    if (cfg.failOnMissing)
+      throw new Error(`${path} not found on ${base} (fail-on-missing)`);
+    return null;
+  }
+  const rootPkg = await reader.readText("package.json");
+  const root = summarizeText(
+    repo,
+    path,
+    rootText,
+    packageJsonVersion(rootPkg),
+    cfg.templates.changelog,
+    cfg.bump
+  );
+  if (root.bump === "none") return null;
+  assertLineBump(line, root.bump, `Unreleased on ${base}`);
+
+  const { version, tag, tagPrefix } = await planVersion(
+    octo,
+    owner,
+    repo,
+    root,
+    cfg.tagPrefix,
+    !line
+  );
+  const date = formatDate(new Date(), cfg.dates);
+  const released = releaseText(
+    rootText,
+    version,
+    date,
+    releaseOptions(ctx, cfg, tagPrefix, line)
+  );
+  if (!released) return null;
+
+  const files: Record<string, string> = { [path]: released.text };
+  if (rootPkg && packageJsonVersion(rootPkg))
+    files["package.json"] = setPackageJsonVersion(rootPkg, version);
+  const plan: ReleasePlan = {
+    version,
+    bump: root.bump,
+    tag,
+    packages: await planPackages(reader, ctx, cfg, rootText, date, files),
+  };
+
+  // Rebuild the branch from the current base on every run
+  const { data: baseRef } = await octo.rest.git.getRef({
+    owner,
+    repo,
+    ref: `heads/${base}`,
+  });
+  const sha = await commitFiles(
+    octo,
+    owner,
+    repo,
+    baseRef.object.sha,
+    files,
+    `release: ${version}`
+  );
+  await forceBranch(octo, owner, repo, branch, sha);
+
+  const title = `release: ${version}`;
+  const body = renderReleasePrBody(
+    plan,
+    (await releaseNotes(octo, ctx, cfg, released.section)).body
+  );
+  const { data: open } = await octo.rest.pulls.list({
+    owner,
+    repo,
+    state: "open",
+    head: `${owner}:${branch}`,
+    base,
+  });
+  if (open.length) {
+    await octo.rest.pulls.update({
+      owner,
+      repo,
+      pull_number: open[0].number,
+      title,
+      body,
+    });
+    return { number: open[0].number, url: open[0].html_url, version };
+  }
+
+  const { data: pr } = await octo.rest.pulls.create({
+    owner,
+    repo,
+    head: branch,
+    base,
+    title,
+    body,
+  });
+  return { number: pr.number, url: pr.html_url, version };
+}
+
+/**
+ * Tag and publish the releases described by a merged release PR (root
+ * version plus every bumped package, tagged "name@x.y.z").
+ */
+export async function publishReleasePr(
+  octo: Octokit,
+  ctx: Context,
+  cfg: Config,
+  opts: { draft?: boolean } = {}
+): Promise<CreatedRelease[]> {
+  const { owner, repo } = ctx.repo;
+  const pr = ctx.payload.pull_request!;
+  const match = PLAN_RE.exec(pr.body ?? "");
+  if (!match || !pr.merge_commit_sha)
+    throw new Error(`#${pr.number} has no release plan in its description`);
+
+  const plan = JSON.parse(match[1]) as ReleasePlan;
+  const sha = pr.merge_commit_sha as string;
+  const reader = githubReader(octo, owner, repo, sha);
+  const path = changelogPathFor(cfg, pr.base.ref);
+
+  const targets = [
+    { tag: plan.tag, version: plan.version, bump: plan.bump, changelog: path },
+    ...plan.packages,
+  ];
+  const created: CreatedRelease[] = [];
+  for (const t of targets) {
+    const text = t.changelog ? await reader.readText(t.changelog) : null;
+    const section = text
+      ? findVersion(
+          parseWithTemplates(text, cfg.templates.changelog),
+          t.version
+        )
+      : undefined;
+    const notes = section
+      ? await releaseNotes(octo, ctx, cfg, section)
+      : undefined;
+    const url = await publishRelease(octo, owner, repo, {
+      tag: t.tag,
+      sha,
+      body: notes?.body ? `${notes.body}\n` : "",
+      draft: opts.draft,
+    });
+    created.push({
+      version: t.version,
+      tag: t.tag,
+      bump: t.bump,
+      url,
+      draft: !!opts.draft,
+      notes,
+    });
+  }
+  return created;
+}
@@ -0,0 +1,210 @@
+import { globToRegExp } from "./monorepo.js";
+
+/** The subset of JSON Schema used by relnote-pro.schema.json. */
+export type JsonSchema = {
+  type?: "object" | "array" | "string" | "boolean" | "integer" | "number";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  minProperties?: number;
+  required?: string[];
+  items?: JsonSchema;
+  minItems?: number;
+  minLength?: number;
+  minimum?: number;
+  pattern?: string;
+  enum?: unknown[];
+  format?: "glob" | "timezone";
+  default?: unknown;
+};
+
+export type SchemaIssue = { path: Array<string | number>; message: string };
+
+function typeOf(v: unknown): string {
+  if (v === null) return "null";
+  if (Array.isArray(v)) return "array";
+  if (typeof v === "number" && Number.isInteger(v)) return "integer";
+  return typeof v;
+}
+
+/** Why a glob is unusable, or undefined if it's fine. */
+function globProblem(glob: string): string | undefined {
+  if (!glob.trim()) return "glob must not be empty";
+  if (glob.startsWith("/")) return "glob must be relative to the repo root";
+  if (glob.includes("\\")) return "glob must use forward slashes";
+  if (/\*{3,}/.test(glob)) return `"${glob}" is not a valid glob`;
+  try {
+    globToRegExp(glob);
+  } catch {
+    return `"${glob}" is not a valid glob`;
+  }
+  return undefined;
+}
+
+/** Whether the runtime knows an IANA time zone ("Europe/Berlin", "UTC"). */
+function isTimeZone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Validate a value against a schema; returns every issue found (empty = valid). */
+export function validateSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path: Array<string | number> = []
+): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  const actual = typeOf(value);
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({
+      path,
+      message: `must be one of ${schema.enum
+        .map((e) => JSON.stringify(e))
+        .join(", ")}; got ${JSON.stringify(value)}`,
+    });
+    return issues;
+  }
+
+  if (schema.type) {
+    const ok =
+      actual === schema.type ||
+      (schema.type === "number" && actual === "integer");
+    if (!ok) {
+      issues.push({ path, message: `must be ${schema.type}; got ${actual}` });
+      return issues;
+    }
+  }
+
+  if (actual === "string") {
+    const s = value as string;
+    if (schema.minLength !== undefined && s.length < schema.minLength)
+      issues.push({ path, message: "must not be empty" });
+    if (schema.pattern && !new RegExp(schema.pattern).test(s))
+      issues.push({
+        path,
+        message: schema.description
+          ? `must match ${schema.pattern} (${schema.description})`
+          : `must match ${schema.pattern}`,
+      });
+    if (schema.format === "glob") {
+      const problem = globProblem(s);
+      if (problem) issues.push({ path, message: problem });
+    }
+    if (schema.format === "timezone" && !isTimeZone(s))
+      issues.push({ path, message: `"${s}" is not an IANA time zone` });
+  }
+
+  if (actual === "integer" || actual === "number") {
+    if (schema.minimum !== undefined && (value as number) < schema.minimum)
+      issues.push({ path, message: `must be ≥ ${schema.minimum}` });
+  }
+
+  if (actual === "array") {
+    const arr = value as unknown[];
+    if (schema.minItems !== undefined && arr.length < schema.minItems)
+      issues.push({
+        path,
+        message: `must have at least ${schema.minItems} item(s)`,
+      });
+    if (schema.items) {
+      arr.forEach((item, i) =>
+        issues.push(...validateSchema(item, schema.items!, [...path, i]))
+      );
+    }
+  }
+
+  if (actual === "object") {
+    const obj = value as Record<string, unknown>;
+    const keys = Object.keys(obj);
+    if (
+      schema.minProperties !== undefined &&
+      keys.length < schema.minProperties
+    )
+      issues.push({
+        path,
+        message: `must have at least ${schema.minProperties} entr${
+          schema.minProperties === 1 ? "y" : "ies"
+        }`,
+      });
+    for (const key of schema.required ?? []) {
+      if (!(key in obj)) issues.push({ path, message: `needs "${key}"` });
+    }
+    for (const key of keys) {
+      const prop = schema.properties?.[key];
+      if (prop) {
+        issues.push(...validateSchema(obj[key], prop, [...path, key]));
+      } else if (typeof schema.additionalProperties === "object") {
+        issues.push(
+          ...validateSchema(obj[key], schema.additionalProperties, [
+            ...path,
+            key,
+          ])
+        );
+      } else if (schema.additionalProperties === false) {
+        const known = Object.keys(schema.properties ?? {}).join(", ");
+        issues.push({
+          path: [...path, key],
+          message: `unknown key (expected one of: ${known})`,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Best-effort 1-based line of a key path in block-style YAML (e.g.
+ * ["monorepo", "packages", 1]). Falls back to the deepest line found.
+ */
+export function locateYamlPath(
+  text: string,
+  path: Array<string | number>
+): number | undefined {
+  const lines = text.split(/\r?\n/);
+  const indentOf = (l: string) => l.length - l.trimStart().length;
+  const isContent = (l: string) => l.trim() !== "" && !/^\s*#/.test(l);
+
+  let parentIndent = -1;
+  let from = 0;
+  let found: number | undefined;
+
+  for (const seg of path) {
+    let hit = -1;
+    let seen = 0;
+    let childIndent: number | undefined;
+    for (let i = from; i < lines.length; i++) {
+      const l = lines[i];
+      if (!isContent(l)) continue;
+      const indent = indentOf(l);
+      const item = l.trimStart().startsWith("- ");
+      // Leaving the parent block (sequence items may sit at the parent's indent)
+      if (indent < parentIndent || (indent === parentIndent && !item)) break;
+      childIndent ??= indent;
+      if (indent !== childIndent) continue; // nested deeper
+      if (typeof seg === "number") {
+        if (item && seen++ === seg) hit = i;
+      } else {
+        const key = new RegExp(
+          `^\\s*(?:-\\s+)?(["']?)${seg.replace(
+            /[.*+?^${}()|[\]\\]/g,
+            "\\$&"
+          )}\\1\\s*:`
+        );
+        if (key.test(l)) hit = i;
+      }
+      if (hit !== -1) break;
+    }
+    if (hit === -1) break; // flow style or not found: keep the parent line
+    found = hit + 1;
+    parentIndent = indentOf(lines[hit]);
+    from = hit + 1;
+  }
+
+  return found;
+}
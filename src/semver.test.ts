@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { versionProblems } from "./semver.js";
+
+describe("versionProblems", () => {
+  const released = { latest: "1.3.0-rc.1", stable: "1.2.0" };
+
+  it("rejects versions that are not SemVer", () => {
+    expect(versionProblems("1.0", released, "minor")).toEqual([
+      "is not valid SemVer",
+    ]);
+    expect(versionProblems("release-2024", {}, "none")).toEqual([
+      "is not valid SemVer",
+    ]);
+  });
+
+  it("requires a version above the latest release", () => {
+    expect(versionProblems("1.3.0-rc.1", released, "none")).toEqual([
+      "is not greater than 1.3.0-rc.1",
+    ]);
+  });
+
+  it("requires the bump the Unreleased entries call for", () => {
+    expect(versionProblems("1.2.1", { stable: "1.2.0" }, "minor")).toEqual([
+      "is lower than 1.3.0, which the minor changes in Unreleased require",
+    ]);
+    expect(versionProblems("1.3.0", released, "minor")).toEqual([]);
+    expect(versionProblems("1.3.0-rc.2", released, "minor")).toEqual([]);
+  });
+});
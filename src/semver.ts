@@ -1,7 +1,14 @@
+import semver from "semver";
 import type { CategorizeResult } from "./categorize.js";
 
 export type Bump = "major" | "minor" | "patch" | "none";
 
+/** The `bump` config: how categories and versions turn into bumps. */
+export type BumpRules = {
+  categories: Record<string, Bump>; // category → bump; wins over the built-in defaults
+  initialDevelopment: boolean; // 0.x: breaking changes bump minor, features patch
+};
+
 const norm = (s: string) => s.trim().toLowerCase();
 
 const MINOR_CATS = new Set([
@@ -29,14 +36,24 @@ const PATCH_CATS = new Set([
   "misc",
 ]);
 
-/** Suggest a SemVer bump based on category + breaking flag. */
-export function suggestBump(input: string | CategorizeResult): Bump {
+/**
+ * Suggest a SemVer bump based on category + breaking flag. Categories in
+ * `rules.categories` get their configured bump, others the built-in default.
+ */
+export function suggestBump(
+  input: string | CategorizeResult,
+  rules?: Partial<BumpRules>
+): Bump {
   const res: CategorizeResult =
     typeof input === "string" ? { category: input, breaking: false } : input;
 
   if (res.breaking) return "major";
 
   const key = norm(res.category);
+  const configured = Object.entries(rules?.categories ?? {}).find(
+    ([category]) => norm(category) === key
+  );
+  if (configured) return configured[1];
 
   if (MINOR_CATS.has(key)) return "minor";
   if (PATCH_CATS.has(key)) return "patch";
@@ -66,3 +83,64 @@ export function combineBumps(bumps: Bump[]): Bump {
   if (bumps.includes("patch")) return "patch";
   return "none";
 }
+
+/** Aggregate bump for a set of categorized entries (e.g., everything in Unreleased). */
+export function bumpForEntries(
+  entries: CategorizeResult[],
+  rules?: Partial<BumpRules>
+): Bump {
+  return combineBumps(entries.map((e) => suggestBump(e, rules)));
+}
+
+/**
+ * The bump applied to `current`. With `initialDevelopment`, a 0.x version
+ * takes one step less: major → minor, minor → patch.
+ */
+export function effectiveBump(
+  current: string,
+  bump: Bump,
+  rules?: Partial<BumpRules>
+): Bump {
+  if (!rules?.initialDevelopment) return bump;
+  const base = semver.valid(current) ?? semver.valid(semver.coerce(current));
+  if (!base || semver.major(base) !== 0) return bump;
+  if (bump === "major") return "minor";
+  if (bump === "minor") return "patch";
+  return bump;
+}
+
+/**
+ * Why `version` can't be released next: not valid SemVer, not greater than
+ * the latest released version, or (ignoring its prerelease part) lower than
+ * the latest stable version plus the `bump` the unreleased entries need.
+ * Each problem reads as a predicate ("is not valid SemVer").
+ */
+export function versionProblems(
+  version: string,
+  released: { latest?: string; stable?: string },
+  bump: Bump
+): string[] {
+  if (!semver.valid(version)) return ["is not valid SemVer"];
+  const out: string[] = [];
+  if (released.latest && !semver.gt(version, released.latest))
+    out.push(`is not greater than ${released.latest}`);
+  if (released.stable && bump !== "none") {
+    const required = nextVersion(released.stable, bump);
+    const base = `${semver.major(version)}.${semver.minor(
+      version
+    )}.${semver.patch(version)}`;
+    if (semver.lt(base, required))
+      out.push(
+        `is lower than ${required}, which the ${bump} changes in Unreleased require`
+      );
+  }
+  return out;
+}
+
+/** Apply a bump to a version; invalid versions are treated as 0.0.0. */
+export function nextVersion(current: string, bump: Bump): string {
+  const base =
+    semver.valid(current) ?? semver.valid(semver.coerce(current)) ?? "0.0.0";
+  if (bump === "none") return base;
+  return semver.inc(base, bump) ?? base;
+}
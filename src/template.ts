@@ -0,0 +1,62 @@
+/**
+ * Minimal templates for changelog lines: `{{name}}` inserts a value and
+ * `{{#name}}…{{/name}}` keeps its content only when `name` is non-empty.
+ */
+
+export type TemplateVars = Record<string, string | number | undefined>;
+
+const TOKEN_RE = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}|\{\{(\w+)\}\}/g;
+
+const isSet = (v: string | number | undefined) => v !== undefined && v !== "";
+
+const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Fill a template; unknown or empty placeholders render as "". */
+export function renderTemplate(tpl: string, vars: TemplateVars): string {
+  return tpl.replace(TOKEN_RE, (_, section, inner, name) => {
+    if (section) return isSet(vars[section]) ? renderTemplate(inner, vars) : "";
+    return isSet(vars[name]) ? String(vars[name]) : "";
+  });
+}
+
+function patternOf(
+  tpl: string,
+  patterns: Record<string, string>,
+  seen: Set<string>
+): string {
+  let out = "";
+  let last = 0;
+  for (const m of tpl.matchAll(TOKEN_RE)) {
+    out += escapeRe(tpl.slice(last, m.index));
+    if (m[1]) {
+      out += `(?:${patternOf(m[2], patterns, seen)})?`;
+    } else if (seen.has(m[3])) {
+      out += `\\k<${m[3]}>`;
+    } else {
+      seen.add(m[3]);
+      out += `(?<${m[3]}>${patterns[m[3]] ?? ".*?"})`;
+    }
+    last = m.index! + m[0].length;
+  }
+  return out + escapeRe(tpl.slice(last));
+}
+
+/**
+ * Read the placeholder values back out of a line rendered from `tpl`, or
+ * null when the line doesn't match. `patterns` narrows what a placeholder
+ * may match (default: anything).
+ */
+export function matchTemplate(
+  tpl: string,
+  line: string,
+  patterns: Record<string, string> = {}
+): Record<string, string> | null {
+  const re = new RegExp(`^${patternOf(tpl, patterns, new Set())}$`);
+  const m = re.exec(line);
+  if (!m) return null;
+  const out: Record<string, string> = {};
+  for (const [k, v] of Object.entries(m.groups ?? {})) {
+    if (v !== undefined && v !== "") out[k] = v;
+  }
+  return out;
+}